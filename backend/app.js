@@ -2,10 +2,26 @@ require('dotenv').config();
 const express = require('express');
 const cors = require('cors');
 const multer = require('multer');
-const pdfParse = require('pdf-parse');
-const { pipeline } = require('@xenova/transformers');
+const os = require('os');
+const path = require('path');
+const fs = require('fs');
 const { v4: uuidv4 } = require('uuid');
-const { OpenAI } = require('openai');
+const { retrieve } = require('./lib/retrieval');
+const { ingestSource } = require('./lib/ingest');
+const { getLoader, acceptedTypes } = require('./lib/loaders');
+const { getChunkingConfig, isChunkingStrategy, CHUNKING_STRATEGIES } = require('./lib/chunking');
+const { createStore } = require('./lib/store');
+const { createNotebookRegistry } = require('./lib/notebooks');
+const { createLLM } = require('./lib/llm');
+const { createJobQueue } = require('./lib/jobs');
+const { buildCitations } = require('./lib/citations');
+const { generateGuide } = require('./lib/guide');
+const { generateArtifact, isArtifactType, ARTIFACT_TYPES } = require('./lib/artifacts');
+const { generateFlashcards, generateQuiz, gradeAnswer, quizScore } = require('./lib/quiz');
+const { generateAudioScript, renderAudio, isAudioLength, AUDIO_LENGTHS } = require('./lib/audio-overview');
+const { createTTS } = require('./lib/tts');
+const { sanitizeNoteHtml, sanitizeCitations, noteToHtml } = require('./lib/notes');
+const { rewriteQuery, buildChatMessages, summarizeOlderTurns } = require('./lib/conversation');
 
 const app = express();
 const port = process.env.PORT || 8000;
@@ -13,119 +29,891 @@ const port = process.env.PORT || 8000;
 app.use(cors());
 app.use(express.json());
 
-const storage = multer.memoryStorage();
+// Uploads are streamed to disk rather than buffered in memory, so large
+// papers don't sit in the heap while they wait for ingestion.
+const maxUploadBytes = Math.floor((parseFloat(process.env.MAX_UPLOAD_MB) || 50) * 1024 * 1024);
+const uploadDir = process.env.UPLOAD_DIR || path.join(os.tmpdir(), 'notebooklm-uploads');
+fs.mkdirSync(uploadDir, { recursive: true });
+
+const storage = multer.diskStorage({ destination: uploadDir });
 const upload = multer({
     storage,
-    limits: { fileSize: 2 * 1024 * 1024 },
+    limits: { fileSize: maxUploadBytes },
 });
 
-let embedder;
-async function getEmbedder() {
-    if (!embedder) {
-        embedder = await pipeline('feature-extraction', 'Xenova/all-MiniLM-L6-v2');
-    }
-    return embedder;
+const llm = createLLM();
+const tts = createTTS();
+
+const notebooks = createNotebookRegistry(createStore());
+const jobs = createJobQueue();
+
+function serializeSource(source) {
+    return {
+        id: source.id,
+        name: source.name,
+        mime_type: source.mimeType,
+        kind: source.kind || 'pdf',
+        size: source.size,
+        num_pages: source.numPages,
+        sections: source.sections,
+        ocr_pages: source.ocrPages || [],
+        // Sources indexed before chunking strategies existed used fixed windows.
+        chunking_strategy: source.chunking?.strategy || 'fixed',
+        chunk_count: source.chunkCount,
+        created_at: source.createdAt,
+    };
 }
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+function serializeNotebook(notebook) {
+    return {
+        id: notebook.id,
+        name: notebook.name,
+        created_at: notebook.createdAt,
+        last_opened_at: notebook.lastOpenedAt || null,
+        chunking_strategy: notebook.chunkingStrategy,
+        sources: notebook.sources.map(serializeSource),
+    };
+}
 
-const sessions = {};
+// The notebook without its sources, for listings
+function serializeNotebookSummary(notebook) {
+    return {
+        id: notebook.id,
+        name: notebook.name,
+        created_at: notebook.createdAt,
+        last_opened_at: notebook.lastOpenedAt || null,
+        chunking_strategy: notebook.chunkingStrategy,
+        source_count: notebook.sources.length,
+    };
+}
 
-function chunkText(text, chunkSize = 512, overlap = 128) {
-    const chunks = [];
-    for (let i = 0; i < text.length; i += chunkSize - overlap) {
-        chunks.push(text.slice(i, i + chunkSize));
-    }
-    return chunks;
+function serializeGuide(guide) {
+    return {
+        summary: guide.summary,
+        topics: guide.topics,
+        questions: guide.questions,
+        generated_at: guide.generatedAt,
+    };
 }
 
-function createInMemoryIndex(embeddings) {
+function serializeArtifact(notebook, artifact) {
+    const ids = artifact.sourceIds || [];
     return {
-        embeddings,
-        search: (queryVector, k = 3) => {
-            const scores = embeddings.map((emb, i) => {
-                const dot = emb.reduce((sum, val, j) => sum + val * queryVector[j], 0);
-                const normA = Math.sqrt(emb.reduce((sum, val) => sum + val * val, 0));
-                const normB = Math.sqrt(queryVector.reduce((sum, val) => sum + val * val, 0));
-                return { score: dot / (normA * normB || 1), index: i };
-            });
-            return {
-                distances: scores.map(s => 1 - s.score).sort((a, b) => a - b).slice(0, k),
-                indices: scores.sort((a, b) => b.score - a.score).slice(0, k).map(s => s.index),
-            };
-        }
+        type: artifact.type,
+        title: artifact.title,
+        content: artifact.content,
+        markdown: artifact.markdown,
+        citations: artifact.citations,
+        generated_at: artifact.generatedAt,
+        // True once sources were added or removed after the artifact was written
+        outdated: ids.length !== notebook.sources.length || notebook.sources.some(s => !ids.includes(s.id)),
+    };
+}
+
+function serializeFlashcards(deck) {
+    return { id: deck.id, source_id: deck.sourceId, cards: deck.cards, created_at: deck.createdAt };
+}
+
+// Answers, explanations and citations stay hidden until a question is answered.
+function serializeQuestion(question, result) {
+    const base = { id: question.id, type: question.type, question: question.question, options: question.options };
+    if (!result) return base;
+    return {
+        ...base,
+        result: { answer: result.answer, correct: result.correct },
+        answer: question.answer,
+        answer_index: question.answerIndex,
+        explanation: question.explanation,
+        citation: question.citation,
+    };
+}
+
+function serializeQuiz(quiz) {
+    return {
+        id: quiz.id,
+        source_id: quiz.sourceId,
+        questions: quiz.questions.map(q => serializeQuestion(q, quiz.answers[q.id])),
+        score: quizScore(quiz),
+        created_at: quiz.createdAt,
+    };
+}
+
+function serializeAudioOverview(notebook, overview) {
+    const ids = overview.sourceIds || [];
+    return {
+        id: overview.id,
+        title: overview.title,
+        length: overview.length,
+        focus: overview.focus,
+        speakers: overview.speakers,
+        lines: overview.lines.map(line => ({
+            speaker: overview.speakers[line.speaker],
+            speaker_index: line.speaker,
+            text: line.text,
+            citations: line.citations,
+        })),
+        audio_url: overview.audio ? `/notebooks/${notebook.id}/audio-overview/audio?v=${overview.id}` : null,
+        audio_error: overview.audioError || null,
+        generated_at: overview.generatedAt,
+        outdated: ids.length !== notebook.sources.length || notebook.sources.some(s => !ids.includes(s.id)),
+    };
+}
+
+function serializeMessage(message, i) {
+    return {
+        id: String(i),
+        role: message.role,
+        content: message.content,
+        citations: message.citations || [],
+        timestamp: message.timestamp,
+    };
+}
+
+function serializeNote(note) {
+    return {
+        id: note.id,
+        title: note.title,
+        content: note.content,
+        citations: note.citations,
+        source_id: note.sourceId || null,
+        created_at: note.createdAt,
+        updated_at: note.updatedAt,
     };
 }
 
-// Upload endpoint
+function serializeJob(job) {
+    return {
+        id: job.id,
+        notebook_id: job.notebookId,
+        source_name: job.sourceName,
+        state: job.state,
+        progress: job.progress,
+        stage: job.stage,
+        error: job.error,
+        warning: job.warning || null,
+        source: job.result,
+        created_at: job.createdAt,
+        updated_at: job.updatedAt,
+    };
+}
+
+// Queues a background job that parses, embeds and indexes the file into the notebook
+// `onIndexed(source)` runs once the source is part of the notebook.
+function startIngestion(notebook, file, { onIndexed } = {}) {
+    return jobs.enqueue({ notebookId: notebook.id, sourceName: file.originalname }, async report => {
+        try {
+            const ingested = await ingestSource(file, report, { chunkingStrategy: notebook.chunkingStrategy });
+            report({ state: 'embedding', progress: 97, stage: 'Updating notebook index' });
+            await notebooks.addSource(notebook, ingested);
+            if (onIndexed) await onIndexed(ingested.source);
+            report({ state: 'embedding', progress: 98, stage: 'Writing notebook guide' });
+            // The source is usable without a guide, so a failure here doesn't fail the job.
+            await refreshGuide(notebook).catch(err => console.error('Notebook guide error:', err));
+            return serializeSource(ingested.source);
+        } finally {
+            if (file.path) fs.promises.rm(file.path, { force: true }).catch(() => {});
+        }
+    });
+}
+
+// Regenerates the guide for the notebook's current sources
+async function refreshGuide(notebook) {
+    const guide = await generateGuide(llm, notebook);
+    await notebooks.updateGuide(notebook, guide);
+    return guide;
+}
+
+function isGuideCurrent(notebook) {
+    const ids = notebook.guide?.sourceIds || [];
+    return ids.length === notebook.sources.length && notebook.sources.every(s => ids.includes(s.id));
+}
+
+// Deletes the request's uploaded temp file; once ingestion starts, its job does this instead.
+function removeUpload(req) {
+    if (req.file?.path) fs.promises.rm(req.file.path, { force: true }).catch(() => {});
+}
+
+// Rejects uploads no loader understands before a job is queued for them
+function checkUploadType(req, res) {
+    if (!req.file) {
+        res.status(400).json({ error: 'No file uploaded' });
+        return false;
+    }
+    if (!getLoader(req.file)) {
+        removeUpload(req);
+        res.status(415).json({ error: `Unsupported file type: ${req.file.originalname}`, accepted_types: acceptedTypes() });
+        return false;
+    }
+    return true;
+}
+
+// Validates an optional chunking strategy from a request; undefined when absent
+function readChunkingStrategy(value, res) {
+    if (value === undefined || value === '') return { ok: true };
+    if (!isChunkingStrategy(value)) {
+        res.status(400).json({ error: `Unknown chunking strategy: ${value}`, chunking_strategies: CHUNKING_STRATEGIES });
+        return { ok: false };
+    }
+    return { ok: true, value };
+}
+
+function getNotebook(req, res) {
+    const notebook = notebooks.get(req.params.id);
+    if (!notebook) res.status(404).json({ error: 'Notebook not found' });
+    return notebook;
+}
+
+// Limits the frontend needs to validate uploads before sending them, and the
+// chunking strategies a notebook can use
+app.get('/config', (req, res) => {
+    const chunking = getChunkingConfig();
+    res.json({
+        max_upload_bytes: maxUploadBytes,
+        accepted_types: acceptedTypes(),
+        chunking: {
+            strategies: CHUNKING_STRATEGIES,
+            default_strategy: chunking.strategy,
+            chunk_tokens: chunking.chunkTokens,
+            overlap_tokens: chunking.overlapTokens,
+        },
+        audio_overview: {
+            lengths: Object.keys(AUDIO_LENGTHS),
+            tts: tts?.name || null,
+        },
+    });
+});
+
+// Upload endpoint: starts a new notebook and queues the uploaded file as its first source
 app.post('/upload', upload.single('file'), async (req, res) => {
+    let job;
     try {
-        const pdfBuffer = req.file.buffer;
-        const pdfData = await pdfParse(pdfBuffer);
-
-        const text = pdfData.text;
-        if (!text || text.trim().length === 0) {
-            throw new Error('No extractable text found in PDF');
+        if (!checkUploadType(req, res)) return;
+        const chunkingStrategy = readChunkingStrategy(req.body?.chunking_strategy, res);
+        if (!chunkingStrategy.ok) {
+            removeUpload(req);
+            return;
         }
 
-        const chunks = chunkText(text);
-        const embedder = await getEmbedder();
+        const notebook = await notebooks.create(req.body?.name || req.file.originalname, { chunkingStrategy: chunkingStrategy.value });
+        job = startIngestion(notebook, req.file);
+
+        res.status(202).json({
+            session_id: notebook.id,
+            notebook_id: notebook.id,
+            job: serializeJob(job),
+            message: 'Source uploaded and queued for indexing',
+        });
+    } catch (err) {
+        if (!job) removeUpload(req);
+        console.error('Upload error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// Notebook endpoints
+app.get('/notebooks', (req, res) => {
+    res.json({ notebooks: notebooks.list().map(serializeNotebookSummary) });
+});
+
+app.post('/notebooks', async (req, res) => {
+    try {
+        const chunkingStrategy = readChunkingStrategy(req.body?.chunking_strategy, res);
+        if (!chunkingStrategy.ok) return;
+
+        const notebook = await notebooks.create(req.body?.name, { chunkingStrategy: chunkingStrategy.value });
+        res.status(201).json(serializeNotebook(notebook));
+    } catch (err) {
+        console.error('Create notebook error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+app.get('/notebooks/:id', (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+    res.json(serializeNotebook(notebook));
+});
+
+// Records that the notebook was opened, for the "last opened" order of the list
+app.post('/notebooks/:id/open', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+
+    try {
+        await notebooks.markOpened(notebook);
+        res.json(serializeNotebook(notebook));
+    } catch (err) {
+        console.error('Open notebook error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// Renames a notebook or changes the chunking strategy for sources added from now on
+app.patch('/notebooks/:id', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+
+    const chunkingStrategy = readChunkingStrategy(req.body?.chunking_strategy, res);
+    if (!chunkingStrategy.ok) return;
+    const name = typeof req.body?.name === 'string' && req.body.name.trim() ? req.body.name.trim() : undefined;
+
+    try {
+        await notebooks.update(notebook, { name, chunkingStrategy: chunkingStrategy.value });
+        res.json(serializeNotebook(notebook));
+    } catch (err) {
+        console.error('Update notebook error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+app.delete('/notebooks/:id', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+
+    try {
+        await notebooks.remove(notebook);
+        res.status(204).end();
+    } catch (err) {
+        console.error('Delete notebook error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// The notebook is looked up before the upload is accepted, so a bad id never writes a temp file.
+app.post('/notebooks/:id/sources', (req, res, next) => {
+    if (getNotebook(req, res)) next();
+}, upload.single('file'), (req, res) => {
+    // The notebook may have been deleted while the file was uploading.
+    const notebook = getNotebook(req, res);
+    if (!notebook) {
+        removeUpload(req);
+        return;
+    }
+
+    if (!checkUploadType(req, res)) return;
+
+    let job;
+    try {
+        job = startIngestion(notebook, req.file);
+        res.status(202).json(serializeJob(job));
+    } catch (err) {
+        if (!job) removeUpload(req);
+        console.error('Add source error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// Notebook guide: summary, key topics and suggested questions. Written at
+// ingestion; generated here if missing or out of date with the sources.
+app.get('/notebooks/:id/guide', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+    if (notebook.sources.length === 0) return res.status(404).json({ error: 'Notebook has no sources' });
+
+    try {
+        const guide = isGuideCurrent(notebook) ? notebook.guide : await refreshGuide(notebook);
+        res.json(serializeGuide(guide));
+    } catch (err) {
+        console.error('Notebook guide error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+app.post('/notebooks/:id/guide', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+    if (notebook.sources.length === 0) return res.status(404).json({ error: 'Notebook has no sources' });
+
+    try {
+        res.json(serializeGuide(await refreshGuide(notebook)));
+    } catch (err) {
+        console.error('Notebook guide error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// Study artifacts (FAQ, study guide, briefing document, timeline) written from every chunk
+app.get('/notebooks/:id/artifacts', (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+
+    res.json({
+        types: Object.entries(ARTIFACT_TYPES).map(([type, spec]) => ({ type, title: spec.title })),
+        artifacts: Object.values(notebook.artifacts || {}).map(a => serializeArtifact(notebook, a)),
+    });
+});
+
+app.post('/notebooks/:id/artifacts', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+
+    const type = req.body?.type;
+    if (!isArtifactType(type)) {
+        return res.status(400).json({ error: `Unknown artifact type: ${type}`, types: Object.keys(ARTIFACT_TYPES) });
+    }
+    if (notebook.sources.length === 0) return res.status(400).json({ error: 'Notebook has no sources' });
+
+    try {
+        const artifact = await generateArtifact(llm, notebook, type);
+        await notebooks.saveArtifact(notebook, artifact);
+        res.status(201).json(serializeArtifact(notebook, artifact));
+    } catch (err) {
+        console.error('Artifact error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// Flashcards and quizzes, from one source (`source_id`) or the whole notebook
+function readPracticeOptions(notebook, body, res) {
+    const sourceId = body?.source_id || undefined;
+    if (sourceId && !notebook.sources.some(s => s.id === sourceId)) {
+        res.status(404).json({ error: 'Source not found' });
+        return null;
+    }
+    if (notebook.sources.length === 0) {
+        res.status(400).json({ error: 'Notebook has no sources' });
+        return null;
+    }
+    return { sourceId, count: body?.count };
+}
+
+app.get('/notebooks/:id/flashcards', (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+    if (!notebook.flashcards) return res.status(404).json({ error: 'No flashcards yet' });
+
+    res.json(serializeFlashcards(notebook.flashcards));
+});
+
+app.post('/notebooks/:id/flashcards', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+    const options = readPracticeOptions(notebook, req.body, res);
+    if (!options) return;
+
+    try {
+        const deck = await generateFlashcards(llm, notebook, options);
+        if (!deck) return res.status(400).json({ error: 'No content to generate from' });
+        await notebooks.saveFlashcards(notebook, deck);
+        res.status(201).json(serializeFlashcards(deck));
+    } catch (err) {
+        console.error('Flashcards error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+app.get('/notebooks/:id/quizzes', (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+
+    res.json({ quizzes: (notebook.quizzes || []).map(serializeQuiz) });
+});
+
+app.post('/notebooks/:id/quizzes', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+    const options = readPracticeOptions(notebook, req.body, res);
+    if (!options) return;
+
+    try {
+        const quiz = await generateQuiz(llm, notebook, options);
+        if (!quiz) return res.status(400).json({ error: 'No content to generate from' });
+        await notebooks.saveQuiz(notebook, quiz);
+        res.status(201).json(serializeQuiz(quiz));
+    } catch (err) {
+        console.error('Quiz error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+app.get('/notebooks/:id/quizzes/:quizId', (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+    const quiz = notebook.quizzes?.find(q => q.id === req.params.quizId);
+    if (!quiz) return res.status(404).json({ error: 'Quiz not found' });
+
+    res.json(serializeQuiz(quiz));
+});
+
+// Grades one answer: an option index for multiple choice, text for short answers.
+// Each question can be answered once.
+app.post('/notebooks/:id/quizzes/:quizId/answers', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+    const quiz = notebook.quizzes?.find(q => q.id === req.params.quizId);
+    if (!quiz) return res.status(404).json({ error: 'Quiz not found' });
+
+    const { question_id: questionId, answer } = req.body || {};
+    const question = quiz.questions.find(q => q.id === questionId);
+    if (!question) return res.status(404).json({ error: 'Question not found' });
+    if (quiz.answers[question.id]) return res.status(409).json({ error: 'Question already answered' });
+    if (answer === undefined || answer === null || answer === '') return res.status(400).json({ error: 'No answer given' });
+
+    try {
+        const correct = await gradeAnswer(llm, question, answer);
+        quiz.answers[question.id] = { answer, correct, answeredAt: new Date().toISOString() };
+        await notebooks.saveQuiz(notebook, quiz);
+        res.json({ question: serializeQuestion(question, quiz.answers[question.id]), score: quizScore(quiz) });
+    } catch (err) {
+        console.error('Quiz grading error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
 
-        const embeddings = await Promise.all(chunks.map(async (chunk, i) => {
-            const output = await embedder(chunk, { pooling: 'mean', normalize: true });
-            const embedding = Array.from(output.data).map(Number);
-            if (!embedding.every(num => typeof num === 'number' && !isNaN(num))) {
-                throw new Error(`Invalid embedding for chunk ${i}`);
+// Audio overview: a two-host conversation script about the sources, read
+// aloud when a TTS engine is configured (TTS_PROVIDER)
+app.get('/notebooks/:id/audio-overview', (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+    if (!notebook.audioOverview) return res.status(404).json({ error: 'No audio overview yet' });
+
+    res.json(serializeAudioOverview(notebook, notebook.audioOverview));
+});
+
+// Body: { length?: "short" | "medium" | "long", focus?: string, audio?: boolean }.
+// A failed TTS run still returns the script, with `audio_error` set.
+app.post('/notebooks/:id/audio-overview', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+
+    const { length = 'medium', focus, audio = true } = req.body || {};
+    if (!isAudioLength(length)) {
+        return res.status(400).json({ error: `Unknown length: ${length}`, lengths: Object.keys(AUDIO_LENGTHS) });
+    }
+    if (notebook.sources.length === 0) return res.status(400).json({ error: 'Notebook has no sources' });
+
+    try {
+        const overview = await generateAudioScript(llm, notebook, {
+            length,
+            focus: typeof focus === 'string' ? focus.trim() : undefined,
+        });
+
+        let wav = null;
+        if (tts && audio) {
+            try {
+                wav = await renderAudio(tts, overview);
+                overview.audio = { format: 'wav', bytes: wav.length };
+            } catch (err) {
+                console.error('Audio overview TTS error:', err);
+                overview.audioError = err.message;
             }
-            return embedding;
-        }));
+        }
 
-        const index = createInMemoryIndex(embeddings);
+        await notebooks.saveAudioOverview(notebook, overview, wav);
+        res.status(201).json(serializeAudioOverview(notebook, overview));
+    } catch (err) {
+        console.error('Audio overview error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
 
-        const sessionId = uuidv4();
-        sessions[sessionId] = {
-            index,
-            chunks,
-            metadata: chunks.map((_, i) => ({ page: Math.floor(i / 2) + 1 })),
+app.get('/notebooks/:id/audio-overview/audio', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+
+    try {
+        const wav = await notebooks.getAudio(notebook);
+        if (!wav) return res.status(404).json({ error: 'No audio for this overview' });
+
+        const filename = `${notebook.audioOverview.title.replace(/[^\w\- ]+/g, '').trim() || 'audio-overview'}.wav`;
+        res.set('Content-Type', 'audio/wav');
+        res.set('Content-Disposition', `${req.query.download ? 'attachment' : 'inline'}; filename="${filename}"`);
+        res.send(wav);
+    } catch (err) {
+        console.error('Audio overview error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// Notes: rich text (a safe HTML subset) written by hand or saved from chat
+// answers with their citations
+function readNoteTitle(value) {
+    return typeof value === 'string' ? value.trim().slice(0, 200) : '';
+}
+
+function getNote(notebook, req, res) {
+    const note = notebook.notes.find(n => n.id === req.params.noteId);
+    if (!note) res.status(404).json({ error: 'Note not found' });
+    return note;
+}
+
+app.get('/notebooks/:id/notes', (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+
+    res.json({ notes: notebook.notes.map(serializeNote) });
+});
+
+app.post('/notebooks/:id/notes', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+
+    try {
+        const now = new Date().toISOString();
+        const note = {
+            id: uuidv4(),
+            title: readNoteTitle(req.body?.title) || 'Untitled note',
+            content: sanitizeNoteHtml(req.body?.content),
+            citations: sanitizeCitations(req.body?.citations),
+            sourceId: null,
+            createdAt: now,
+            updatedAt: now,
         };
+        await notebooks.addNote(notebook, note);
+        res.status(201).json(serializeNote(note));
+    } catch (err) {
+        console.error('Note error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+app.patch('/notebooks/:id/notes/:noteId', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+    const note = getNote(notebook, req, res);
+    if (!note) return;
 
-        res.json({ session_id: sessionId, message: 'PDF uploaded and indexed' });
+    const changes = {};
+    if (req.body?.title !== undefined) changes.title = readNoteTitle(req.body.title) || 'Untitled note';
+    if (req.body?.content !== undefined) changes.content = sanitizeNoteHtml(req.body.content);
+    if (req.body?.citations !== undefined) changes.citations = sanitizeCitations(req.body.citations);
+
+    try {
+        await notebooks.updateNote(notebook, note, changes);
+        res.json(serializeNote(note));
     } catch (err) {
-        console.error('Upload error:', err);
+        console.error('Note error:', err);
         res.status(500).json({ error: err.message });
     }
 });
 
-// Chat endpoint
-app.post('/chat', async (req, res) => {
-    const { session_id, message } = req.body;
-    const session = sessions[session_id];
-    if (!session) return res.status(404).json({ error: 'Session not found' });
+app.delete('/notebooks/:id/notes/:noteId', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+    const note = getNote(notebook, req, res);
+    if (!note) return;
 
     try {
-        const { index, chunks, metadata } = session;
-        const embedder = await getEmbedder();
+        await notebooks.deleteNote(notebook, note.id);
+        res.status(204).end();
+    } catch (err) {
+        console.error('Note error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
 
-        const queryEmbedding = await embedder(message, { pooling: 'mean', normalize: true });
-        const queryVector = Array.from(queryEmbedding.data).map(Number);
+// Indexes the note as a new HTML source; answers with the ingestion job.
+// The note remembers the source once the job finishes.
+app.post('/notebooks/:id/notes/:noteId/source', (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+    const note = getNote(notebook, req, res);
+    if (!note) return;
 
-        const k = 3;
-        const result = index.search(queryVector, k);
-        const indices = result.indices || [];
+    const html = noteToHtml(note);
+    const job = startIngestion(notebook, {
+        originalname: `${note.title.replace(/[\\/:*?"<>|]+/g, ' ').trim() || 'Note'}.html`,
+        mimetype: 'text/html',
+        size: Buffer.byteLength(html),
+        buffer: Buffer.from(html),
+    }, {
+        onIndexed: source => notebooks.updateNote(notebook, note, { sourceId: source.id }),
+    });
+    res.status(202).json(serializeJob(job));
+});
 
-        const context = indices.length > 0 ? indices.map(i => chunks[i]).join('\n') : 'No relevant context found';
-        const citations = indices.length > 0 ? indices.map(i => metadata[i]?.page || 1) : [];
+// Extracted text of a source, by page (PDF) or section (other formats), for the text viewer
+app.get('/notebooks/:id/sources/:sourceId/content', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
 
-        const prompt = `Context: ${context}\n\nQuestion: ${message}\nAnswer concisely and reference page numbers where applicable.`;
+    const source = notebook.sources.find(s => s.id === req.params.sourceId);
+    if (!source) return res.status(404).json({ error: 'Source not found' });
 
-        const response = await openai.chat.completions.create({
-            model: 'gpt-3.5-turbo',
-            messages: [{ role: 'user', content: prompt }],
-            max_tokens: 200,
-        });
+    try {
+        const units = await notebooks.getSourceContent(notebook, source.id);
+        if (!units) return res.status(404).json({ error: 'Source content not available' });
+        res.json({ kind: source.kind || 'pdf', units });
+    } catch (err) {
+        console.error('Source content error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// The original uploaded file, so the frontend can show it again after a reload
+app.get('/notebooks/:id/sources/:sourceId/file', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+
+    const source = notebook.sources.find(s => s.id === req.params.sourceId);
+    if (!source) return res.status(404).json({ error: 'Source not found' });
+
+    try {
+        const file = await notebooks.getSourceFile(notebook, source.id);
+        if (!file) return res.status(404).json({ error: 'Original file not kept for this source' });
+        res.set('Content-Type', source.mimeType || 'application/octet-stream');
+        res.set('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(source.name)}`);
+        res.send(file);
+    } catch (err) {
+        console.error('Source file error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// Chat history of a notebook (the chat's session id), oldest first
+app.get('/notebooks/:id/messages', (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+
+    res.json({ messages: notebook.messages.map(serializeMessage) });
+});
+
+app.delete('/notebooks/:id/sources/:sourceId', async (req, res) => {
+    const notebook = getNotebook(req, res);
+    if (!notebook) return;
+
+    if (!notebook.sources.some(s => s.id === req.params.sourceId)) {
+        return res.status(404).json({ error: 'Source not found' });
+    }
+
+    try {
+        await notebooks.removeSource(notebook, req.params.sourceId);
+        res.status(204).end();
+        refreshGuide(notebook).catch(err => console.error('Notebook guide error:', err));
+    } catch (err) {
+        console.error('Remove source error:', err);
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// Per-request overrides for retrieval, e.g. `{ "retrieval": { "keyword_weight": 2, "rerank_candidates": 50 } }`
+function retrievalOptions(body) {
+    const { k, candidates, vector_weight, keyword_weight, rerank, rerank_candidates } = body.retrieval || {};
+    const options = {};
+    if (Number.isInteger(k) && k > 0) options.k = Math.min(k, 20);
+    if (Number.isInteger(candidates) && candidates > 0) options.candidates = candidates;
+    if (typeof vector_weight === 'number' && vector_weight >= 0) options.vectorWeight = vector_weight;
+    if (typeof keyword_weight === 'number' && keyword_weight >= 0) options.keywordWeight = keyword_weight;
+    if (typeof rerank === 'boolean') options.rerank = rerank;
+    if (Number.isInteger(rerank_candidates) && rerank_candidates > 0) options.rerankCandidates = Math.min(rerank_candidates, 100);
+    return options;
+}
+
+// Ingestion job endpoints
+app.get('/jobs/:id', (req, res) => {
+    const job = jobs.get(req.params.id);
+    if (!job) return res.status(404).json({ error: 'Job not found' });
+    res.json(serializeJob(job));
+});
+
+// Server-Sent Events: a `progress` event with the job on every change, ending
+// after the job is indexed or failed.
+app.get('/jobs/:id/events', (req, res) => {
+    const job = jobs.get(req.params.id);
+    if (!job) return res.status(404).json({ error: 'Job not found' });
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+    });
+
+    const send = current => {
+        res.write(`event: progress\ndata: ${JSON.stringify(serializeJob(current))}\n\n`);
+        if (jobs.isFinished(current)) {
+            unsubscribe();
+            res.end();
+        }
+    };
+
+    const unsubscribe = jobs.subscribe(job.id, send);
+    res.on('close', unsubscribe);
+    send(job);
+});
+
+// Where a passage comes from, as shown to the model: the page (PDFs) and the
+// heading path when one is known.
+function locationLabel(chunk) {
+    const { section, page, sectionPath = [] } = chunk.metadata;
+    const heading = sectionPath.length > 0 ? sectionPath.join(' > ') : section?.title;
+    if (section) return `section "${heading}"`;
+    return heading ? `page ${page}, section "${heading}"` : `page ${page}`;
+}
+
+// Finds the chunks most relevant to the question and builds the prompt around
+// them, numbering each passage so the answer can cite it as [n].
+async function buildChatPrompt(notebook, message, options) {
+    const { chunks, sources } = notebook;
+    const results = await retrieve(notebook, message, options);
+
+    const hits = results.map(result => ({
+        chunk: chunks[result.index],
+        source: sources.find(s => s.id === chunks[result.index].sourceId),
+        score: result.rerankScore ?? result.score,
+    }));
+
+    const context = hits.length > 0
+        ? hits.map(({ chunk, source }, i) => `[${i + 1}] (${source.name}, ${locationLabel(chunk)})\n${chunk.text}`).join('\n\n')
+        : 'No relevant context found';
+    const citations = buildCitations(hits, message);
+
+    const prompt = `Context:\n${context}\n\nQuestion: ${message}\n`
+        + 'Answer concisely using only the context. After each claim, cite the supporting passages with their bracketed numbers, e.g. [1] or [2][3].';
+
+    return { prompt, citations };
+}
+
+// Rewrites follow-ups into standalone questions for retrieval and wraps the
+// grounded prompt in the conversation so far.
+async function prepareChat(notebook, message, body) {
+    const query = await rewriteQuery(llm, notebook, message);
+    const { prompt, citations } = await buildChatPrompt(notebook, query, retrievalOptions(body));
+    return { query, messages: buildChatMessages(notebook, prompt), citations };
+}
+
+function getChatNotebook(req, res) {
+    const { session_id, notebook_id, message } = req.body;
+    const notebook = notebooks.get(notebook_id || session_id);
+    if (!notebook) {
+        res.status(404).json({ error: 'Session not found' });
+        return null;
+    }
+    if (typeof message !== 'string' || !message.trim()) {
+        res.status(400).json({ error: 'Message is required' });
+        return null;
+    }
+    if (notebook.chunks.length === 0) {
+        res.status(400).json({ error: 'Notebook has no sources' });
+        return null;
+    }
+    return notebook;
+}
+
+async function saveExchange(notebook, message, answer, citations) {
+    const timestamp = new Date().toISOString();
+    await notebooks.appendMessages(
+        notebook,
+        { role: 'user', content: message, timestamp },
+        { role: 'assistant', content: answer, citations, timestamp },
+    );
+    // Summarising older turns is not needed for this answer, so it runs in the background.
+    summarizeOlderTurns(llm, notebooks, notebook).catch(err => console.error('Summarise history error:', err));
+}
+
+// Chat endpoint
+app.post('/chat', async (req, res) => {
+    const notebook = getChatNotebook(req, res);
+    if (!notebook) return;
+    const { message } = req.body;
+
+    try {
+        const { messages, citations } = await prepareChat(notebook, message, req.body);
+
+        const answer = await llm.complete(messages);
+        await saveExchange(notebook, message, answer, citations);
 
         res.json({
-            response: response.choices[0].message.content,
+            response: answer,
             citations,
         });
     } catch (err) {
@@ -134,9 +922,81 @@ app.post('/chat', async (req, res) => {
     }
 });
 
+// Streaming chat endpoint: Server-Sent Events with `token` events carrying
+// answer fragments, then a `citations` event and a final `done` event.
+app.post('/chat/stream', async (req, res) => {
+    const notebook = getChatNotebook(req, res);
+    if (!notebook) return;
+    const { message } = req.body;
+
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) controller.abort();
+    });
+
+    const send = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+    });
+
+    let answer = '';
+    let citations = [];
+    try {
+        const prepared = await prepareChat(notebook, message, req.body);
+        citations = prepared.citations;
+
+        const stream = llm.stream(prepared.messages, { signal: controller.signal });
+
+        for await (const content of stream) {
+            answer += content;
+            send('token', { content });
+        }
+
+        send('citations', { citations });
+        await saveExchange(notebook, message, answer, citations);
+        send('done', {});
+    } catch (err) {
+        if (controller.signal.aborted) {
+            // The client pressed Stop; keep whatever was generated so far.
+            if (answer) await saveExchange(notebook, message, answer, citations).catch(() => {});
+            return;
+        }
+        console.error('Chat stream error:', err);
+        send('error', { error: err.message });
+    }
+    res.end();
+});
+
 app.get('/', (req, res) => res.status(200).send('Backend OK'));
 app.use((req, res) => res.status(404).send('API not found'));
 
-app.listen(port, () => {
-    console.log(`Server running on port ${port}`);
+app.use((err, req, res, next) => {
+    removeUpload(req);
+    if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({
+            error: `File is larger than the ${+(maxUploadBytes / 1024 / 1024).toFixed(1)} MB upload limit`,
+            code: 'FILE_TOO_LARGE',
+            max_upload_bytes: maxUploadBytes,
+        });
+    }
+    if (err instanceof multer.MulterError) {
+        return res.status(400).json({ error: err.message, code: err.code });
+    }
+    console.error('Unhandled error:', err);
+    res.status(500).json({ error: err.message });
 });
+
+notebooks.load()
+    .then(count => {
+        console.log(`Loaded ${count} notebook(s) from storage`);
+        app.listen(port, () => {
+            console.log(`Server running on port ${port} (LLM: ${llm.name}/${llm.model})`);
+        });
+    })
+    .catch(err => {
+        console.error('Failed to load notebooks:', err);
+        process.exit(1);
+    });
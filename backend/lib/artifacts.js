@@ -0,0 +1,189 @@
+const { parseJsonReply } = require('./llm/json');
+const { buildCitations } = require('./citations');
+
+// Study artifacts are written with map-reduce over every chunk in the
+// notebook: each batch of chunks is condensed into cited notes (map), the
+// notes are merged until they fit one request (reduce), and the final request
+// turns them into the artifact's JSON shape. Chunks are numbered across the
+// notebook so [n] markers survive every step.
+function getArtifactConfig(env = process.env) {
+    return {
+        batchChars: parseInt(env.ARTIFACT_BATCH_CHARS, 10) || 8000,
+        concurrency: parseInt(env.ARTIFACT_CONCURRENCY, 10) || 2,
+        mapMaxTokens: parseInt(env.ARTIFACT_MAP_MAX_TOKENS, 10) || 500,
+        maxTokens: parseInt(env.ARTIFACT_MAX_TOKENS, 10) || 1500,
+    };
+}
+
+const ARTIFACT_TYPES = {
+    faq: {
+        title: 'FAQ',
+        focus: 'questions a newcomer would ask and the facts that answer them',
+        shape: '{ "title": string, "items": [{ "question": string, "answer": string }] }',
+        instructions: 'Write 6 to 12 frequently asked questions with concise answers.',
+        toMarkdown: a => (a.items || []).map(i => `### ${i.question}\n\n${i.answer}`).join('\n\n'),
+    },
+    study_guide: {
+        title: 'Study guide',
+        focus: 'key concepts, how they relate, and terms with their definitions',
+        shape: '{ "title": string, "overview": string, "sections": [{ "heading": string, "points": [string] }], '
+            + '"glossary": [{ "term": string, "definition": string }], "review_questions": [string] }',
+        instructions: 'Organise the key concepts into sections of short points, define the important terms in a glossary, '
+            + 'and add 5 review questions.',
+        toMarkdown: a => [
+            a.overview,
+            ...(a.sections || []).map(s => `## ${s.heading}\n\n${(s.points || []).map(p => `- ${p}`).join('\n')}`),
+            a.glossary?.length ? `## Glossary\n\n${a.glossary.map(g => `- **${g.term}**: ${g.definition}`).join('\n')}` : '',
+            a.review_questions?.length ? `## Review questions\n\n${a.review_questions.map((q, i) => `${i + 1}. ${q}`).join('\n')}` : '',
+        ].filter(Boolean).join('\n\n'),
+    },
+    briefing: {
+        title: 'Briefing document',
+        focus: 'main themes, decisions, requirements, risks and open questions',
+        shape: '{ "title": string, "summary": string, "sections": [{ "heading": string, "points": [string] }] }',
+        instructions: 'Write an executive summary followed by sections on the main themes, important details, and risks or open questions.',
+        toMarkdown: a => [
+            a.summary,
+            ...(a.sections || []).map(s => `## ${s.heading}\n\n${(s.points || []).map(p => `- ${p}`).join('\n')}`),
+        ].filter(Boolean).join('\n\n'),
+    },
+    timeline: {
+        title: 'Timeline',
+        focus: 'dated or ordered events, milestones and versions, with their dates',
+        shape: '{ "title": string, "events": [{ "date": string, "description": string }] }',
+        instructions: 'List the events in chronological order. Use the dates as written in the sources; '
+            + 'if the order is known but the date is not, describe the position (e.g. "After the pilot").',
+        toMarkdown: a => (a.events || []).map(e => `- **${e.date}**: ${e.description}`).join('\n'),
+    },
+};
+
+function isArtifactType(type) {
+    return Object.hasOwn(ARTIFACT_TYPES, type);
+}
+
+// Runs `fn` over `items` with at most `limit` calls in flight, keeping order.
+async function mapWithConcurrency(items, limit, fn) {
+    const results = new Array(items.length);
+    let next = 0;
+    async function worker() {
+        while (next < items.length) {
+            const i = next++;
+            results[i] = await fn(items[i], i);
+        }
+    }
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+// Groups texts into batches of at most `maxChars` (a single longer text gets its own batch).
+function batchByLength(items, maxChars, length) {
+    const batches = [];
+    let current = [];
+    let size = 0;
+    for (const item of items) {
+        if (current.length > 0 && size + length(item) > maxChars) {
+            batches.push(current);
+            current = [];
+            size = 0;
+        }
+        current.push(item);
+        size += length(item);
+    }
+    if (current.length > 0) batches.push(current);
+    return batches;
+}
+
+const CITE_RULE = 'Cite the passages that support each statement with their bracketed numbers, e.g. [3] or [4][7], '
+    + 'keeping the numbers exactly as given.';
+
+async function mapBatch(llm, spec, passages, config) {
+    const context = passages.map(p => `[${p.number}] (${p.source.name})\n${p.chunk.text}`).join('\n\n');
+    const prompt = `Passages:\n${context}\n\n`
+        + `Take notes on ${spec.focus} found in these passages, as short bullet points. ${CITE_RULE} `
+        + 'Skip anything unrelated. If nothing is relevant, reply with "None".';
+    return (await llm.complete([{ role: 'user', content: prompt }], { maxTokens: config.mapMaxTokens })).trim();
+}
+
+async function reduceNotes(llm, spec, notes, config) {
+    const prompt = `Notes taken from different parts of the sources:\n\n${notes.join('\n\n')}\n\n`
+        + `Merge these notes on ${spec.focus} into one list of bullet points, combining duplicates. ${CITE_RULE}`;
+    return (await llm.complete([{ role: 'user', content: prompt }], { maxTokens: config.mapMaxTokens * 2 })).trim();
+}
+
+// Every string in the artifact, for collecting and renumbering [n] markers.
+function mapStrings(value, fn) {
+    if (typeof value === 'string') return fn(value);
+    if (Array.isArray(value)) return value.map(v => mapStrings(v, fn));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapStrings(v, fn)]));
+    }
+    return value;
+}
+
+const MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Replaces notebook-wide passage numbers with citation numbers 1..k in order of
+// first use, and builds the matching citations. Markers naming unknown
+// passages are dropped.
+function renumberCitations(content, passages) {
+    const numbers = new Map();
+    const firstUse = new Map();
+    const renumbered = mapStrings(content, text => text.replace(MARKER, (marker, list) => {
+        const mapped = list.split(',').map(n => parseInt(n, 10)).filter(n => passages[n - 1]).map(n => {
+            if (!numbers.has(n)) {
+                numbers.set(n, numbers.size + 1);
+                firstUse.set(n, text);
+            }
+            return `[${numbers.get(n)}]`;
+        });
+        return mapped.join('');
+    }));
+
+    const citations = [...numbers].map(([n, number]) => {
+        const { chunk, source } = passages[n - 1];
+        return { ...buildCitations([{ chunk, source, score: null }], firstUse.get(n).replace(MARKER, ''))[0], number };
+    });
+    return { content: renumbered, citations };
+}
+
+async function generateArtifact(llm, notebook, type, config = getArtifactConfig()) {
+    const spec = ARTIFACT_TYPES[type];
+    const passages = notebook.chunks.map((chunk, i) => ({
+        number: i + 1,
+        chunk,
+        source: notebook.sources.find(s => s.id === chunk.sourceId),
+    }));
+
+    const batches = batchByLength(passages, config.batchChars, p => p.chunk.text.length);
+    let notes = (await mapWithConcurrency(batches, config.concurrency, batch => mapBatch(llm, spec, batch, config)))
+        .filter(note => note && !/^none\.?$/i.test(note));
+
+    // Merge notes until they fit in one request.
+    while (notes.length > 1 && notes.join('\n\n').length > config.batchChars) {
+        const groups = batchByLength(notes, config.batchChars, note => note.length);
+        if (groups.length === notes.length) break;
+        notes = await mapWithConcurrency(groups, config.concurrency, group => reduceNotes(llm, spec, group, config));
+    }
+
+    const sourceNames = notebook.sources.map(s => s.name).join(', ');
+    const prompt = `Notes on ${sourceNames}:\n\n${notes.join('\n\n') || 'No relevant notes.'}\n\n`
+        + `Using only these notes, write a ${spec.title.toLowerCase()}. ${spec.instructions} ${CITE_RULE}\n`
+        + `Reply with JSON only, in this shape: ${spec.shape}`;
+    const reply = await llm.complete([{ role: 'user', content: prompt }], { maxTokens: config.maxTokens });
+    const parsed = parseJsonReply(reply);
+
+    // A reply that isn't the requested JSON is kept as plain text.
+    const { content, citations } = renumberCitations(parsed || { text: reply.trim() }, passages);
+    const title = typeof content.title === 'string' && content.title.trim() ? content.title.trim() : spec.title;
+    return {
+        type,
+        title,
+        content: parsed ? content : null,
+        markdown: `# ${title}\n\n${parsed ? spec.toMarkdown(content) : content.text}`,
+        citations,
+        sourceIds: notebook.sources.map(s => s.id),
+        generatedAt: new Date().toISOString(),
+    };
+}
+
+module.exports = { getArtifactConfig, generateArtifact, isArtifactType, ARTIFACT_TYPES };
@@ -0,0 +1,134 @@
+const { v4: uuidv4 } = require('uuid');
+const { parseJsonReply } = require('./llm/json');
+const { buildCitations } = require('./citations');
+const { retrieve } = require('./retrieval');
+const { joinWav } = require('./tts/wav');
+
+// Audio overviews: a two-host conversation about the notebook's sources,
+// written as a script whose lines cite the passages they draw on, and
+// optionally read aloud by a local TTS engine.
+function getAudioOverviewConfig(env = process.env) {
+    return {
+        contextChars: parseInt(env.AUDIO_CONTEXT_CHARS, 10) || 16000,
+        maxTokens: parseInt(env.AUDIO_MAX_TOKENS, 10) || 3000,
+        gapMs: parseInt(env.AUDIO_GAP_MS, 10) || 350,
+        speakers: [env.AUDIO_SPEAKER_A || 'Alex', env.AUDIO_SPEAKER_B || 'Sam'],
+    };
+}
+
+// Roughly 150 spoken words a minute.
+const AUDIO_LENGTHS = {
+    short: { lines: 12, minutes: 2 },
+    medium: { lines: 24, minutes: 5 },
+    long: { lines: 40, minutes: 9 },
+};
+
+function isAudioLength(length) {
+    return Object.hasOwn(AUDIO_LENGTHS, length);
+}
+
+// Passages for the script: with a focus, the chunks that best match it;
+// otherwise evenly spaced chunks from every source. Kept in document order so
+// the conversation can follow the material.
+async function selectPassages(notebook, focus, budget) {
+    const { chunks } = notebook;
+    const average = chunks.reduce((sum, c) => sum + c.text.length, 0) / chunks.length;
+    const count = Math.max(1, Math.min(chunks.length, Math.floor(budget / (average || 1))));
+
+    let positions;
+    if (focus) {
+        positions = (await retrieve(notebook, focus, { k: count, rerank: false })).map(r => r.index);
+    } else {
+        const step = chunks.length / count;
+        positions = Array.from({ length: count }, (_, i) => Math.floor(i * step));
+    }
+    return [...new Set(positions)].sort((a, b) => a - b).map((position, i) => ({
+        number: i + 1,
+        chunk: chunks[position],
+        source: notebook.sources.find(s => s.id === chunks[position].sourceId),
+    }));
+}
+
+function citePassages(passages, numbers, text) {
+    return [...new Set(numbers)]
+        .map(n => passages[n - 1])
+        .filter(Boolean)
+        .map(({ chunk, source }) => {
+            const { number: _, ...citation } = buildCitations([{ chunk, source, score: null }], text)[0];
+            return citation;
+        });
+}
+
+// Used when the reply is not usable JSON (e.g. the mock provider): the first
+// host introduces each passage's section and the second reads from it.
+function fallbackLines(passages, lines) {
+    const script = [];
+    for (const passage of passages) {
+        if (script.length >= lines) break;
+        const topic = passage.chunk.metadata.sectionPath?.at(-1) || passage.source.name;
+        // Chunks usually open with their heading, which the question already names.
+        const body = passage.chunk.text.replace(/^[^\n]*\n/, first => (first.trim() === topic ? '' : first));
+        const sentences = body.split(/(?<=[.!?])\s+/).filter(s => s.trim().length > 20);
+        if (sentences.length === 0) continue;
+        script.push({ speaker: 0, text: `What do the sources say about ${topic}?`, passages: [] });
+        script.push({ speaker: 1, text: sentences.slice(0, 2).join(' ').replace(/\s+/g, ' ').trim(), passages: [passage.number] });
+    }
+    return script.slice(0, lines);
+}
+
+async function generateAudioScript(llm, notebook, { length = 'medium', focus } = {}, config = getAudioOverviewConfig()) {
+    const target = AUDIO_LENGTHS[length];
+    const passages = await selectPassages(notebook, focus, config.contextChars);
+    const [hostA, hostB] = config.speakers;
+
+    const context = passages.map(p => `[${p.number}] (${p.source.name})\n${p.chunk.text}`).join('\n\n');
+    const prompt = `Passages:\n${context}\n\n`
+        + `Write the script of a podcast episode in which two hosts, ${hostA} and ${hostB}, discuss these sources`
+        + `${focus ? `, focusing on: ${focus}` : ''}. ${hostA} guides the conversation and asks questions; `
+        + `${hostB} explains. Keep it lively and natural, open with a short hook, and close with a recap. `
+        + `Write about ${target.lines} lines (around ${target.minutes} minutes spoken). `
+        + 'Use only facts from the passages, and list the passages each line draws on by number. '
+        + 'Reply with JSON only, in this shape: '
+        + '{ "title": string, "lines": [{ "speaker": "A" | "B", "text": string, "passages": [number] }] }';
+    const reply = await llm.complete([{ role: 'user', content: prompt }], { maxTokens: config.maxTokens });
+    const parsed = parseJsonReply(reply);
+
+    let lines = (Array.isArray(parsed?.lines) ? parsed.lines : [])
+        .map(line => ({
+            speaker: line?.speaker === 'B' || line?.speaker === hostB ? 1 : 0,
+            text: typeof line?.text === 'string' ? line.text.trim() : '',
+            passages: Array.isArray(line?.passages) ? line.passages.map(n => parseInt(n, 10)) : [],
+        }))
+        .filter(line => line.text);
+    if (lines.length === 0) lines = fallbackLines(passages, target.lines);
+
+    const title = typeof parsed?.title === 'string' && parsed.title.trim()
+        ? parsed.title.trim()
+        : `A conversation about ${focus || notebook.name}`;
+    return {
+        id: uuidv4(),
+        title,
+        length,
+        focus: focus || null,
+        speakers: config.speakers,
+        lines: lines.map(line => ({
+            speaker: line.speaker,
+            text: line.text,
+            citations: citePassages(passages, line.passages, line.text),
+        })),
+        audio: null,
+        sourceIds: notebook.sources.map(s => s.id),
+        generatedAt: new Date().toISOString(),
+    };
+}
+
+// Reads each line with its speaker's voice and joins the clips into one WAV file.
+async function renderAudio(tts, overview, config = getAudioOverviewConfig()) {
+    const clips = [];
+    for (const line of overview.lines) {
+        clips.push(await tts.synthesize(line.text, tts.voices[line.speaker]));
+    }
+    return joinWav(clips, config.gapMs);
+}
+
+module.exports = { getAudioOverviewConfig, generateAudioScript, renderAudio, isAudioLength, AUDIO_LENGTHS };
@@ -0,0 +1,63 @@
+// Keeps identifiers such as "4.2", "RFC-7231" or "part_no" together as one
+// token, and also indexes their pieces so partial matches still count.
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:[.\-_/][\p{L}\p{N}]+)*/gu;
+
+function tokenize(text) {
+    const tokens = [];
+    for (const [match] of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+        tokens.push(match);
+        const parts = match.split(/[.\-_/]/);
+        if (parts.length > 1) tokens.push(...parts);
+    }
+    return tokens;
+}
+
+// Okapi BM25 over chunk texts. Document ids are positions in `texts`, matching
+// the vector index so results can be fused.
+function createBM25Index(texts, { k1 = 1.2, b = 0.75 } = {}) {
+    const termFreqs = [];
+    const docLengths = [];
+    const docFreqs = new Map();
+
+    for (const text of texts) {
+        const tokens = tokenize(text);
+        const tf = new Map();
+        for (const token of tokens) tf.set(token, (tf.get(token) || 0) + 1);
+        for (const token of tf.keys()) docFreqs.set(token, (docFreqs.get(token) || 0) + 1);
+        termFreqs.push(tf);
+        docLengths.push(tokens.length);
+    }
+
+    const docCount = texts.length;
+    const avgLength = docLengths.reduce((sum, len) => sum + len, 0) / (docCount || 1);
+
+    function idf(term) {
+        const df = docFreqs.get(term) || 0;
+        return Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+    }
+
+    return {
+        size: docCount,
+        search: (query, k = 3) => {
+            const terms = [...new Set(tokenize(query))].filter(term => docFreqs.has(term));
+            if (terms.length === 0) return { indices: [], scores: [] };
+
+            const scored = [];
+            termFreqs.forEach((tf, i) => {
+                let score = 0;
+                for (const term of terms) {
+                    const freq = tf.get(term);
+                    if (!freq) continue;
+                    const norm = k1 * (1 - b + b * (docLengths[i] / (avgLength || 1)));
+                    score += idf(term) * (freq * (k1 + 1)) / (freq + norm);
+                }
+                if (score > 0) scored.push({ index: i, score });
+            });
+
+            const top = scored.sort((a, b) => b.score - a.score).slice(0, k);
+            return { indices: top.map(s => s.index), scores: top.map(s => s.score) };
+        },
+    };
+}
+
+module.exports = { createBM25Index, tokenize };
@@ -0,0 +1,71 @@
+// Finds the heading outline of a document. Sections from the text loaders
+// already know their headings and levels; PDF pages and plain text only have
+// lines, so headings there are guessed from their shape.
+
+const MAX_HEADING_LENGTH = 80;
+
+// "2", "2.1" or "2.1.3" followed by a capitalised title: level = depth.
+const NUMBERED = /^(\d{1,3}(?:\.\d{1,3}){0,4})\.?\s+(\p{Lu}.*)$/u;
+// "Chapter 4", "Part II: Methods", "Appendix A".
+const NAMED = /^(chapter|part|appendix)\s+([\dIVXLC]+|[A-Z])\b[.:]?(\s+.*)?$/i;
+// Short all-caps lines such as "INTRODUCTION".
+const ALL_CAPS = /^(?=(?:.*\p{Lu}){3})[\p{Lu}\p{N}\s\-:&,'’()]+$/u;
+
+function guessHeading(line) {
+    const text = line.trim();
+    if (text.length < 2 || text.length > MAX_HEADING_LENGTH || /[.,;:]$/.test(text)) return null;
+
+    const numbered = text.match(NUMBERED);
+    if (numbered) return { level: numbered[1].split('.').length, title: text };
+    if (NAMED.test(text)) return { level: 1, title: text };
+    if (ALL_CAPS.test(text) && text.split(/\s+/).length <= 8) return { level: 1, title: text };
+    return null;
+}
+
+// Returns `{ start, level, title, path }` for every heading, in document order,
+// where `path` lists the titles of its enclosing headings and itself.
+// `pages` are the loader units and `offsets` where each starts in `text`.
+function detectHeadings(text, pages, offsets) {
+    const headings = [];
+    const stack = [];
+    const guessed = new Set();
+
+    function add(start, level, title) {
+        while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+        const heading = { start, level, title, path: [...stack.map(h => h.title), title] };
+        stack.push(heading);
+        headings.push(heading);
+    }
+
+    pages.forEach((page, i) => {
+        const { start, end } = offsets[i];
+        if (page.level) {
+            add(start, page.level, page.title);
+            return;
+        }
+        let lineStart = start;
+        for (const line of text.slice(start, end).split('\n')) {
+            const heading = guessHeading(line);
+            // A line seen before is a running header or footer, not a new section.
+            if (heading && !guessed.has(heading.title)) {
+                guessed.add(heading.title);
+                add(lineStart, heading.level, heading.title);
+            }
+            lineStart += line.length + 1;
+        }
+    });
+
+    return headings;
+}
+
+// The heading path in effect at a document offset.
+function sectionPathAt(headings, offset) {
+    let path = [];
+    for (const heading of headings) {
+        if (heading.start > offset) break;
+        path = heading.path;
+    }
+    return path;
+}
+
+module.exports = { detectHeadings, sectionPathAt };
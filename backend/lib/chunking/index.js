@@ -0,0 +1,118 @@
+const { paragraphSpans, sentenceSpans, fitSpans, packSpans } = require('./split');
+const { detectHeadings, sectionPathAt } = require('./headings');
+
+const PAGE_SEPARATOR = '\n\n';
+
+// Concatenates page texts and remembers where each page starts and ends in the
+// combined document text.
+function joinPages(pages) {
+    let text = '';
+    const offsets = [];
+    for (const { page, text: pageText } of pages) {
+        if (offsets.length > 0) text += PAGE_SEPARATOR;
+        const start = text.length;
+        text += pageText;
+        offsets.push({ page, start, end: text.length });
+    }
+    return { text, offsets };
+}
+
+// A chunk starting on a page separator belongs to the page that follows it,
+// and one ending on a separator belongs to the page before it.
+function pageStartingAt(offsets, offset) {
+    return offsets.find(p => offset < p.end) || offsets[offsets.length - 1];
+}
+
+function pageEndingAt(offsets, offset) {
+    return offsets.filter(p => p.start < offset).pop() || offsets[0];
+}
+
+function chunkText(text, chunkSize = 512, overlap = 128) {
+    const chunks = [];
+    for (let i = 0; i < text.length; i += chunkSize - overlap) {
+        chunks.push({ text: text.slice(i, i + chunkSize), start: i, end: Math.min(i + chunkSize, text.length) });
+    }
+    return chunks;
+}
+
+// How chunks are cut:
+// - heading:   never across a heading; within a section, whole paragraphs
+// - paragraph: whole paragraphs, falling back to sentences for long ones
+// - sentence:  whole sentences
+// - fixed:     the original 512-character windows with 128 characters of overlap
+// Token-based strategies pack units up to `chunkTokens`, overlapping by up to
+// `overlapTokens`. The default stays well under the 256 tokens the embedding
+// model reads.
+const STRATEGIES = {
+    heading: (text, headings, { chunkTokens, overlapTokens }) => {
+        // A heading directly followed by a subheading stays with it rather
+        // than becoming a chunk of its own.
+        const headingStarts = new Set(headings.map(h => h.start));
+        const bounds = [0];
+        for (const { start } of headings) {
+            const from = bounds[bounds.length - 1];
+            const previous = text.slice(from, start).trim();
+            if (previous.length > 0 && (previous.includes('\n') || !headingStarts.has(from))) bounds.push(start);
+        }
+        bounds.push(text.length);
+        return bounds.slice(0, -1).flatMap((from, i) => packSpans(
+            fitSpans(text, { start: from, end: bounds[i + 1] }, [paragraphSpans, sentenceSpans], chunkTokens),
+            chunkTokens,
+            overlapTokens,
+        ));
+    },
+    paragraph: (text, headings, { chunkTokens, overlapTokens }) => packSpans(
+        fitSpans(text, { start: 0, end: text.length }, [paragraphSpans, sentenceSpans], chunkTokens),
+        chunkTokens,
+        overlapTokens,
+    ),
+    sentence: (text, headings, { chunkTokens, overlapTokens }) => packSpans(
+        fitSpans(text, { start: 0, end: text.length }, [sentenceSpans], chunkTokens),
+        chunkTokens,
+        overlapTokens,
+    ),
+    fixed: text => chunkText(text),
+};
+
+function getChunkingConfig(env = process.env) {
+    return {
+        strategy: STRATEGIES[env.CHUNK_STRATEGY] ? env.CHUNK_STRATEGY : 'heading',
+        chunkTokens: parseInt(env.CHUNK_TOKENS, 10) || 200,
+        overlapTokens: parseInt(env.CHUNK_OVERLAP_TOKENS ?? '40', 10),
+    };
+}
+
+function isChunkingStrategy(name) {
+    return Object.hasOwn(STRATEGIES, name);
+}
+
+// Chunks across page boundaries and records, for every chunk, the pages it
+// spans, its character range both in the document and within those pages, and
+// the heading path it falls under.
+function chunkPages(pages, options = {}) {
+    const config = { ...getChunkingConfig(), ...options };
+    const { text, offsets } = joinPages(pages);
+    const headings = detectHeadings(text, pages, offsets);
+
+    return STRATEGIES[config.strategy](text, headings, config)
+        .filter(chunk => text.slice(chunk.start, chunk.end).trim().length > 0)
+        .map(chunk => {
+            const first = pageStartingAt(offsets, chunk.start);
+            const last = pageEndingAt(offsets, chunk.end);
+            return {
+                text: text.slice(chunk.start, chunk.end),
+                metadata: {
+                    page: first.page,
+                    startPage: first.page,
+                    endPage: last.page,
+                    start: chunk.start,
+                    end: chunk.end,
+                    pageStart: Math.max(0, chunk.start - first.start),
+                    pageEnd: Math.max(0, Math.min(last.end, chunk.end) - last.start),
+                    sectionPath: sectionPathAt(headings, chunk.start),
+                },
+            };
+        });
+}
+
+module.exports = { chunkText, chunkPages, joinPages, getChunkingConfig, isChunkingStrategy, CHUNKING_STRATEGIES: Object.keys(STRATEGIES) };
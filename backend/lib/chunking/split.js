@@ -0,0 +1,106 @@
+const { countTokens, tokenSpans } = require('./tokens');
+
+// Splitting works on character ranges `{ start, end }` of the joined document
+// text, so chunks keep exact offsets for citations.
+
+function trimSpan(text, start, end) {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    return start < end ? { start, end } : null;
+}
+
+// Cuts text.slice(from, to) after every match of `boundary` and drops blank pieces.
+function splitAt(text, from, to, boundary) {
+    const spans = [];
+    let start = from;
+    for (const match of text.slice(from, to).matchAll(boundary)) {
+        const end = from + match.index + match[0].length;
+        const span = trimSpan(text, start, end);
+        if (span) spans.push(span);
+        start = end;
+    }
+    const rest = trimSpan(text, start, to);
+    if (rest) spans.push(rest);
+    return spans;
+}
+
+// Paragraphs are separated by blank lines (which includes page breaks).
+const PARAGRAPH_BOUNDARY = /\n[^\S\n]*\n\s*/g;
+
+// A sentence ends at . ! or ? (plus closing quotes or brackets) when the next
+// word starts with a capital letter, digit or opening quote, so "e.g. the" and
+// "3.5 mm" stay whole. Initials and common abbreviations ("Dr.", "p.m.") never
+// end one. Blank lines also end a sentence.
+const SENTENCE_BOUNDARY = /(?<!\b(?:\p{L}|Dr|Mrs?|Ms|Prof|Sr|Jr|St|vs|etc|Fig|No|Inc|Ltd|Co))[.!?…]+["'”’)\]]*(?=\s+["'“‘(\[]?[\p{Lu}\p{N}])|\n[^\S\n]*\n/gu;
+
+function paragraphSpans(text, from, to) {
+    return splitAt(text, from, to, PARAGRAPH_BOUNDARY);
+}
+
+function sentenceSpans(text, from, to) {
+    return splitAt(text, from, to, SENTENCE_BOUNDARY);
+}
+
+// Token windows, for sentences too long to fit a chunk on their own.
+function tokenWindowSpans(text, from, to, maxTokens) {
+    const tokens = tokenSpans(text, from, to);
+    const spans = [];
+    for (let i = 0; i < tokens.length; i += maxTokens) {
+        const last = tokens[Math.min(i + maxTokens, tokens.length) - 1];
+        spans.push({ start: tokens[i].start, end: last.end });
+    }
+    return spans;
+}
+
+// Splits with the first splitter, then re-splits any piece over `maxTokens`
+// with the next one, ending with plain token windows.
+function fitSpans(text, { start, end }, splitters, maxTokens) {
+    const span = trimSpan(text, start, end);
+    if (!span) return [];
+    const tokens = countTokens(text.slice(span.start, span.end));
+    if (tokens <= maxTokens) return [{ ...span, tokens }];
+
+    const [split, ...finer] = splitters;
+    if (!split) {
+        return tokenWindowSpans(text, span.start, span.end, maxTokens)
+            .map(s => ({ ...s, tokens: countTokens(text.slice(s.start, s.end)) }));
+    }
+    const pieces = split(text, span.start, span.end);
+    if (pieces.length <= 1) return fitSpans(text, span, finer, maxTokens);
+    return pieces.flatMap(piece => fitSpans(text, piece, finer, maxTokens));
+}
+
+// Greedily groups consecutive units into chunks of at most `maxTokens`. Each
+// new chunk starts with as many trailing units of the previous one as fit in
+// `overlapTokens`, so context carries across the cut.
+function packSpans(units, maxTokens, overlapTokens) {
+    const chunks = [];
+    let current = [];
+    let tokens = 0;
+
+    for (const unit of units) {
+        if (current.length > 0 && tokens + unit.tokens > maxTokens) {
+            chunks.push({ start: current[0].start, end: current[current.length - 1].end });
+
+            let carried = [];
+            let carriedTokens = 0;
+            for (let i = current.length - 1; i > 0; i--) {
+                if (carriedTokens + current[i].tokens > overlapTokens) break;
+                carried.unshift(current[i]);
+                carriedTokens += current[i].tokens;
+            }
+            while (carried.length > 0 && carriedTokens + unit.tokens > maxTokens) {
+                carriedTokens -= carried.shift().tokens;
+            }
+            current = carried;
+            tokens = carriedTokens;
+        }
+        current.push(unit);
+        tokens += unit.tokens;
+    }
+    if (current.length > 0) chunks.push({ start: current[0].start, end: current[current.length - 1].end });
+
+    return chunks;
+}
+
+module.exports = { paragraphSpans, sentenceSpans, fitSpans, packSpans };
@@ -0,0 +1,18 @@
+// Approximates the embedding model's tokenizer without loading it: every word,
+// number and punctuation mark counts as one token. WordPiece splits rare words
+// further, so real counts run a little higher; chunk sizes leave room for that.
+const TOKEN_PATTERN = /[\p{L}\p{M}]+|\p{N}+|[^\s\p{L}\p{M}\p{N}]/gu;
+
+function countTokens(text) {
+    let count = 0;
+    for (const _ of text.matchAll(TOKEN_PATTERN)) count++;
+    return count;
+}
+
+// Character ranges of the tokens in text.slice(from, to), as document offsets.
+function tokenSpans(text, from, to) {
+    return [...text.slice(from, to).matchAll(TOKEN_PATTERN)]
+        .map(match => ({ start: from + match.index, end: from + match.index + match[0].length }));
+}
+
+module.exports = { countTokens, tokenSpans };
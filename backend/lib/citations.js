@@ -0,0 +1,85 @@
+const { tokenize } = require('./bm25');
+
+const MAX_SNIPPET_LENGTH = 200;
+
+// Sentence-ish spans of a chunk with their offsets inside the chunk.
+function splitSentences(text) {
+    const spans = [];
+    const pattern = /[^.!?\n]+(?:[.!?]+|\n|$)/g;
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+        if (match[0].trim()) spans.push({ start: match.index, end: match.index + match[0].length });
+        if (match[0].length === 0) pattern.lastIndex++;
+    }
+    return spans.length > 0 ? spans : [{ start: 0, end: text.length }];
+}
+
+// Picks the sentence sharing the most terms with the query, then grows it with
+// neighbouring sentences while it stays under MAX_SNIPPET_LENGTH.
+function selectSnippet(text, query) {
+    const queryTerms = new Set(tokenize(query));
+    const sentences = splitSentences(text);
+    const overlap = ({ start, end }) => tokenize(text.slice(start, end)).filter(t => queryTerms.has(t)).length;
+
+    let best = 0;
+    sentences.forEach((sentence, i) => {
+        if (overlap(sentence) > overlap(sentences[best])) best = i;
+    });
+
+    let first = best;
+    let last = best;
+    while (true) {
+        const canGrowLeft = first > 0 && sentences[last].end - sentences[first - 1].start <= MAX_SNIPPET_LENGTH;
+        const canGrowRight = last < sentences.length - 1 && sentences[last + 1].end - sentences[first].start <= MAX_SNIPPET_LENGTH;
+        if (canGrowRight) last++;
+        else if (canGrowLeft) first--;
+        else break;
+    }
+
+    let start = sentences[first].start;
+    let end = Math.min(sentences[last].end, start + MAX_SNIPPET_LENGTH);
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    return { start, end };
+}
+
+// Maps a document offset to its page and the offset within that page. Sources
+// ingested before page offsets were recorded fall back to the chunk's start page.
+function locate(source, chunk, docOffset) {
+    const page = source.pageOffsets?.find(p => docOffset >= p.start && docOffset <= p.end);
+    if (page) return { page: page.page, offset: docOffset - page.start };
+    return { page: chunk.metadata.page, offset: chunk.metadata.pageStart + (docOffset - chunk.metadata.start) };
+}
+
+// Numbered citations for retrieved chunks; `number` matches the [n] markers
+// the model is asked to put in its answer.
+function buildCitations(hits, query) {
+    return hits.map(({ chunk, source, score }, i) => {
+        const snippet = selectSnippet(chunk.text, query);
+        const start = chunk.metadata.start + snippet.start;
+        const end = chunk.metadata.start + snippet.end;
+        const from = locate(source, chunk, start);
+        const to = locate(source, chunk, end);
+        const section = source.sections?.find(s => s.page === from.page);
+
+        return {
+            number: i + 1,
+            source_id: source.id,
+            source_name: source.name,
+            chunk_id: chunk.id,
+            page: from.page,
+            end_page: to.page,
+            section_title: section?.title,
+            anchor: section?.anchor,
+            section_path: chunk.metadata.sectionPath || [],
+            snippet: chunk.text.slice(snippet.start, snippet.end),
+            start,
+            end,
+            page_start: from.offset,
+            page_end: to.offset,
+            score,
+        };
+    });
+}
+
+module.exports = { buildCitations, selectSnippet };
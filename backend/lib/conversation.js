@@ -0,0 +1,68 @@
+// Conversation memory for /chat: the last few turns are sent verbatim and
+// anything older is folded into a running summary stored on the notebook.
+function getConversationConfig(env = process.env) {
+    return {
+        windowTurns: parseInt(env.CHAT_HISTORY_TURNS, 10) || 4,
+        summaryMaxTokens: parseInt(env.CHAT_SUMMARY_MAX_TOKENS, 10) || 200,
+    };
+}
+
+function recentMessages(notebook, config) {
+    return notebook.messages.slice(-config.windowTurns * 2);
+}
+
+function formatTranscript(messages) {
+    return messages
+        .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+        .join('\n');
+}
+
+// Turns a follow-up like "and the second one?" into a question that makes
+// sense on its own, so retrieval finds the right chunks.
+async function rewriteQuery(llm, notebook, message, config = getConversationConfig()) {
+    const history = recentMessages(notebook, config);
+    if (history.length === 0) return message;
+
+    const summary = notebook.summary ? `Earlier conversation summary: ${notebook.summary}\n\n` : '';
+    const prompt = `${summary}Conversation:\n${formatTranscript(history)}\n\nFollow-up question: ${message}\n\n`
+        + 'Rewrite the follow-up question as a standalone question that can be understood without the conversation. '
+        + 'Reply with the question only. If it is already standalone, repeat it unchanged.';
+
+    try {
+        const rewritten = (await llm.complete([{ role: 'user', content: prompt }], { maxTokens: 100 })).trim();
+        return rewritten || message;
+    } catch (err) {
+        console.error('Query rewrite error:', err);
+        return message;
+    }
+}
+
+// Summary of older turns, the recent window, then the retrieval-grounded prompt.
+function buildChatMessages(notebook, prompt, config = getConversationConfig()) {
+    const messages = [];
+    if (notebook.summary) {
+        messages.push({ role: 'system', content: `Summary of the earlier conversation: ${notebook.summary}` });
+    }
+    for (const m of recentMessages(notebook, config)) {
+        messages.push({ role: m.role, content: m.content });
+    }
+    messages.push({ role: 'user', content: prompt });
+    return messages;
+}
+
+// Folds turns that have left the window into the notebook's running summary.
+async function summarizeOlderTurns(llm, notebooks, notebook, config = getConversationConfig()) {
+    const windowStart = Math.max(0, notebook.messages.length - config.windowTurns * 2);
+    const summarized = notebook.summarizedCount || 0;
+    if (windowStart - summarized < 2) return;
+
+    const older = notebook.messages.slice(summarized, windowStart);
+    const prompt = `${notebook.summary ? `Current summary: ${notebook.summary}\n\n` : ''}`
+        + `New conversation turns:\n${formatTranscript(older)}\n\n`
+        + 'Write an updated, concise summary of the whole conversation so far, keeping names, numbers and open questions.';
+
+    const summary = (await llm.complete([{ role: 'user', content: prompt }], { maxTokens: config.summaryMaxTokens })).trim();
+    if (summary) await notebooks.updateSummary(notebook, summary, windowStart);
+}
+
+module.exports = { getConversationConfig, rewriteQuery, buildChatMessages, summarizeOlderTurns };
@@ -0,0 +1,21 @@
+const { pipeline } = require('@xenova/transformers');
+
+let embedder;
+async function getEmbedder() {
+    if (!embedder) {
+        embedder = await pipeline('feature-extraction', 'Xenova/all-MiniLM-L6-v2');
+    }
+    return embedder;
+}
+
+async function embed(text) {
+    const embedder = await getEmbedder();
+    const output = await embedder(text, { pooling: 'mean', normalize: true });
+    const embedding = Array.from(output.data).map(Number);
+    if (!embedding.every(num => typeof num === 'number' && !isNaN(num))) {
+        throw new Error('Invalid embedding');
+    }
+    return embedding;
+}
+
+module.exports = { getEmbedder, embed };
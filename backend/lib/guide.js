@@ -0,0 +1,80 @@
+const { parseJsonReply } = require('./llm/json');
+
+// The notebook guide: a summary of all sources, their key topics and a few
+// starter questions, regenerated whenever the notebook's sources change.
+function getGuideConfig(env = process.env) {
+    return {
+        contextChars: parseInt(env.GUIDE_CONTEXT_CHARS, 10) || 12000,
+        maxTokens: parseInt(env.GUIDE_MAX_TOKENS, 10) || 600,
+    };
+}
+
+const MIN_QUESTIONS = 3;
+const MAX_QUESTIONS = 5;
+const MAX_TOPICS = 8;
+
+// Evenly spaced chunks from every source, sharing the budget between sources,
+// so long documents don't crowd out short ones.
+function sampleChunks(notebook, budget) {
+    const bySource = new Map(notebook.sources.map(s => [s.id, []]));
+    for (const chunk of notebook.chunks) bySource.get(chunk.sourceId)?.push(chunk);
+
+    const perSource = Math.floor(budget / Math.max(1, bySource.size));
+    const samples = [];
+    for (const [sourceId, chunks] of bySource) {
+        if (chunks.length === 0) continue;
+        const count = Math.max(1, Math.min(chunks.length, Math.floor(perSource / (chunks[0].text.length || 1))));
+        const step = chunks.length / count;
+        const source = notebook.sources.find(s => s.id === sourceId);
+        for (let i = 0; i < count; i++) samples.push({ source, chunk: chunks[Math.floor(i * step)] });
+    }
+    return samples;
+}
+
+// Used when the model's reply is not usable JSON (e.g. the mock provider):
+// topics come from the headings chunks fall under, or the source names.
+function fallbackGuide(notebook, reply) {
+    const headings = notebook.chunks.map(c => c.metadata.sectionPath?.[0]).filter(Boolean);
+    const topics = [...new Set(headings.length > 0 ? headings : notebook.sources.map(s => s.name))].slice(0, MAX_TOPICS);
+    const questions = topics.slice(0, MAX_QUESTIONS).map(topic => `What do the sources say about "${topic}"?`);
+    for (const generic of ['What are the main points of these sources?', 'What conclusions do the sources reach?', 'Which terms should I know first?']) {
+        if (questions.length >= MIN_QUESTIONS) break;
+        questions.push(generic);
+    }
+    return { summary: reply.trim(), topics, questions };
+}
+
+function cleanList(value, max) {
+    return Array.isArray(value)
+        ? [...new Set(value.filter(item => typeof item === 'string').map(item => item.trim()).filter(Boolean))].slice(0, max)
+        : [];
+}
+
+async function generateGuide(llm, notebook, config = getGuideConfig()) {
+    if (notebook.sources.length === 0) return null;
+
+    const excerpts = sampleChunks(notebook, config.contextChars)
+        .map(({ source, chunk }) => `(${source.name})\n${chunk.text}`)
+        .join('\n\n');
+    const prompt = `Sources: ${notebook.sources.map(s => s.name).join(', ')}\n\nExcerpts:\n${excerpts}\n\n`
+        + 'Write a guide to these sources as JSON with exactly these keys:\n'
+        + '"summary": a summary of what the sources cover, in 3 to 5 sentences;\n'
+        + `"topics": up to ${MAX_TOPICS} key topics, each a short phrase;\n`
+        + `"questions": ${MIN_QUESTIONS} to ${MAX_QUESTIONS} questions a reader could ask to start exploring the sources, answerable from them.\n`
+        + 'Reply with the JSON object only.';
+    const messages = [{ role: 'user', content: prompt }];
+    const reply = await llm.complete(messages, { maxTokens: config.maxTokens });
+    const parsed = parseJsonReply(reply);
+
+    const fallback = fallbackGuide(notebook, parsed ? '' : reply);
+    const questions = cleanList(parsed?.questions, MAX_QUESTIONS);
+    return {
+        summary: typeof parsed?.summary === 'string' && parsed.summary.trim() ? parsed.summary.trim() : fallback.summary,
+        topics: parsed ? cleanList(parsed.topics, MAX_TOPICS) : fallback.topics,
+        questions: questions.length >= MIN_QUESTIONS ? questions : fallback.questions,
+        sourceIds: notebook.sources.map(s => s.id),
+        generatedAt: new Date().toISOString(),
+    };
+}
+
+module.exports = { getGuideConfig, generateGuide };
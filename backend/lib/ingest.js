@@ -0,0 +1,94 @@
+const fs = require('fs/promises');
+const { v4: uuidv4 } = require('uuid');
+const { getLoader } = require('./loaders');
+const { chunkPages, joinPages, getChunkingConfig } = require('./chunking');
+const { embed } = require('./embeddings');
+
+// Turns an uploaded file into a source record, its embedded chunks, its
+// extracted text and the original bytes (kept so the file can be served
+// again). Chunk ids are unique across the notebook so several sources can
+// share one index. `onProgress` receives `{ state, progress, stage }`
+// updates as work proceeds; `options.chunkingStrategy` overrides the default.
+async function ingestSource(file, onProgress = () => {}, options = {}) {
+    const loader = getLoader(file);
+    if (!loader) throw new Error(`Unsupported file type: ${file.originalname}`);
+
+    onProgress({ state: 'parsing', progress: 2, stage: 'Extracting text' });
+    const original = file.buffer || await fs.readFile(file.path);
+    const pages = await loader.load(original, {
+        onOcrProgress: (done, total) => onProgress({
+            state: 'parsing',
+            progress: 2 + Math.floor((done / total) * 8),
+            stage: done < total ? `Running OCR on page ${done + 1} of ${total}` : `OCR finished for ${total} ${total === 1 ? 'page' : 'pages'}`,
+        }),
+        // The text layer is still indexed, so an OCR failure only leaves a warning on the job.
+        onOcrError: err => {
+            console.error('OCR error, using the text layer:', err);
+            onProgress({ state: 'parsing', progress: 10, stage: 'OCR failed, using the text layer', warning: `OCR failed: ${err.message}` });
+        },
+    });
+    const numPages = pages.length;
+    const unit = loader.kind === 'pdf' ? 'pages' : 'sections';
+
+    if (!pages.some(p => p.text.trim().length > 0)) {
+        throw new Error(loader.kind === 'pdf' ? 'No extractable text found in PDF' : `No text found in ${file.originalname}`);
+    }
+
+    const sourceId = uuidv4();
+    const chunking = getChunkingConfig();
+    if (options.chunkingStrategy) chunking.strategy = options.chunkingStrategy;
+    const pageChunks = chunkPages(pages, chunking);
+    if (loader.kind === 'text') {
+        for (const chunk of pageChunks) {
+            const section = pages[chunk.metadata.startPage - 1];
+            chunk.metadata.section = { title: section.title, anchor: section.anchor };
+        }
+    }
+    onProgress({ state: 'parsing', progress: 10, stage: `Split ${numPages} ${unit} into ${pageChunks.length} chunks (${chunking.strategy})` });
+
+    // Embedding is CPU bound, so chunks are embedded one by one to report progress.
+    const chunks = [];
+    for (const [i, chunk] of pageChunks.entries()) {
+        let embedding;
+        try {
+            embedding = await embed(chunk.text);
+        } catch {
+            throw new Error(`Invalid embedding for chunk ${i}`);
+        }
+        chunks.push({
+            id: `${sourceId}:${i}`,
+            sourceId,
+            text: chunk.text,
+            metadata: chunk.metadata,
+            embedding,
+        });
+        onProgress({
+            state: 'embedding',
+            progress: 10 + Math.floor(((i + 1) / pageChunks.length) * 85),
+            stage: `Embedding chunk ${i + 1} of ${pageChunks.length}`,
+        });
+    }
+
+    const source = {
+        id: sourceId,
+        name: file.originalname,
+        mimeType: file.mimetype,
+        kind: loader.kind,
+        size: file.size,
+        numPages,
+        // Where each page starts and ends in the joined document text, used to
+        // place citation snippets on the right page.
+        pageOffsets: joinPages(pages).offsets,
+        // Section outline for text sources; PDFs are navigated by page.
+        sections: loader.kind === 'text' ? pages.map(({ page, title, anchor }) => ({ page, title, anchor })) : undefined,
+        // Pages whose text came from OCR, with Tesseract's confidence (0-100).
+        ocrPages: pages.filter(p => p.ocr).map(p => ({ page: p.page, confidence: p.ocr.confidence })),
+        chunking,
+        chunkCount: chunks.length,
+        createdAt: new Date().toISOString(),
+    };
+
+    return { source, chunks, content: pages, original };
+}
+
+module.exports = { ingestSource };
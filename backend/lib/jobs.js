@@ -0,0 +1,65 @@
+const EventEmitter = require('events');
+const { v4: uuidv4 } = require('uuid');
+
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+// Runs ingestion jobs one at a time in the background. Each job moves through
+// queued -> parsing -> embedding -> indexed (or failed) and every change is
+// published so clients can follow progress.
+function createJobQueue() {
+    const jobs = new Map();
+    const events = new EventEmitter();
+    events.setMaxListeners(0);
+    let queue = Promise.resolve();
+
+    function update(job, changes) {
+        Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+        events.emit(job.id, job);
+    }
+
+    async function execute(job, run) {
+        try {
+            const result = await run(progress => update(job, progress));
+            update(job, { state: 'indexed', progress: 100, stage: 'Indexed', result });
+        } catch (err) {
+            console.error(`Job ${job.id} failed:`, err);
+            update(job, { state: 'failed', stage: 'Failed', error: err.message });
+        }
+        setTimeout(() => jobs.delete(job.id), FINISHED_JOB_TTL_MS).unref();
+    }
+
+    return {
+        get(id) {
+            return jobs.get(id);
+        },
+
+        enqueue(details, run) {
+            const now = new Date().toISOString();
+            const job = {
+                id: uuidv4(),
+                ...details,
+                state: 'queued',
+                progress: 0,
+                stage: 'Waiting to start',
+                error: null,
+                result: null,
+                createdAt: now,
+                updatedAt: now,
+            };
+            jobs.set(job.id, job);
+            queue = queue.then(() => execute(job, run));
+            return job;
+        },
+
+        subscribe(id, listener) {
+            events.on(id, listener);
+            return () => events.off(id, listener);
+        },
+
+        isFinished(job) {
+            return job.state === 'indexed' || job.state === 'failed';
+        },
+    };
+}
+
+module.exports = { createJobQueue };
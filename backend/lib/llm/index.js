@@ -0,0 +1,36 @@
+const { createOpenAIProvider } = require('./openai');
+const { createMockProvider } = require('./mock');
+
+// LLM_PROVIDER picks the chat model backend:
+//   openai             OpenAI's API (default)
+//   openai-compatible  any server speaking the OpenAI API at LLM_BASE_URL
+//   mock               deterministic offline echo, no network needed
+function createLLM(env = process.env) {
+    const provider = env.LLM_PROVIDER || 'openai';
+    const maxTokens = parseInt(env.LLM_MAX_TOKENS, 10) || 200;
+
+    switch (provider) {
+        case 'openai':
+            return createOpenAIProvider({
+                apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY,
+                baseURL: env.LLM_BASE_URL || undefined,
+                model: env.LLM_MODEL || 'gpt-3.5-turbo',
+                maxTokens,
+            });
+        case 'openai-compatible':
+            if (!env.LLM_BASE_URL) throw new Error('LLM_BASE_URL is required for the openai-compatible provider');
+            if (!env.LLM_MODEL) throw new Error('LLM_MODEL is required for the openai-compatible provider');
+            return createOpenAIProvider({
+                apiKey: env.LLM_API_KEY,
+                baseURL: env.LLM_BASE_URL,
+                model: env.LLM_MODEL,
+                maxTokens,
+            });
+        case 'mock':
+            return createMockProvider({ model: env.LLM_MODEL, maxTokens });
+        default:
+            throw new Error(`Unknown LLM_PROVIDER "${provider}"`);
+    }
+}
+
+module.exports = { createLLM };
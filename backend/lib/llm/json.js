@@ -0,0 +1,15 @@
+// Reads a JSON object from a model reply. Models often wrap JSON in code
+// fences or add a sentence around it, so the outermost braces are parsed.
+// Returns null when the reply holds no readable object.
+function parseJsonReply(reply) {
+    const start = reply.indexOf('{');
+    const end = reply.lastIndexOf('}');
+    if (start === -1 || end <= start) return null;
+    try {
+        return JSON.parse(reply.slice(start, end + 1));
+    } catch {
+        return null;
+    }
+}
+
+module.exports = { parseJsonReply };
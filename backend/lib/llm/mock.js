@@ -0,0 +1,38 @@
+// Deterministic offline provider: answers by echoing the last user message,
+// capped at maxTokens words. Used for development and tests without network.
+function createMockProvider({ model = 'mock', maxTokens }) {
+    function reply(messages, max) {
+        const lastUser = [...messages].reverse().find(m => m.role === 'user');
+        const words = `Mock response: ${lastUser ? lastUser.content : ''}`.trim().split(/\s+/);
+        return words.slice(0, max || words.length).join(' ');
+    }
+
+    function throwIfAborted(signal) {
+        if (signal?.aborted) {
+            const err = new Error('Request was aborted.');
+            err.name = 'AbortError';
+            throw err;
+        }
+    }
+
+    return {
+        name: 'mock',
+        model,
+
+        async complete(messages, { maxTokens: max = maxTokens, signal } = {}) {
+            throwIfAborted(signal);
+            return reply(messages, max);
+        },
+
+        async *stream(messages, { maxTokens: max = maxTokens, signal } = {}) {
+            const words = reply(messages, max).split(' ');
+            for (let i = 0; i < words.length; i++) {
+                await new Promise(resolve => setImmediate(resolve));
+                throwIfAborted(signal);
+                yield i === 0 ? words[i] : ` ${words[i]}`;
+            }
+        },
+    };
+}
+
+module.exports = { createMockProvider };
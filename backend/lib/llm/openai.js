@@ -0,0 +1,38 @@
+const { OpenAI } = require('openai');
+
+// Talks to OpenAI or to any server exposing the same chat completions API
+// (llama.cpp, Ollama, vLLM, ...) when a base URL is given.
+function createOpenAIProvider({ apiKey, baseURL, model, maxTokens }) {
+    // Local OpenAI-compatible servers usually ignore the key, but the SDK insists on one.
+    const client = new OpenAI({ apiKey: apiKey || (baseURL ? 'not-needed' : undefined), baseURL });
+
+    return {
+        name: baseURL ? 'openai-compatible' : 'openai',
+        model,
+
+        async complete(messages, { maxTokens: max = maxTokens, signal } = {}) {
+            const response = await client.chat.completions.create({
+                model,
+                messages,
+                max_tokens: max,
+            }, { signal });
+            return response.choices[0]?.message?.content || '';
+        },
+
+        async *stream(messages, { maxTokens: max = maxTokens, signal } = {}) {
+            const stream = await client.chat.completions.create({
+                model,
+                messages,
+                max_tokens: max,
+                stream: true,
+            }, { signal });
+
+            for await (const part of stream) {
+                const content = part.choices[0]?.delta?.content;
+                if (content) yield content;
+            }
+        },
+    };
+}
+
+module.exports = { createOpenAIProvider };
@@ -0,0 +1,10 @@
+const mammoth = require('mammoth');
+const { loadHtml } = require('./html');
+
+// Word headings become <h1>-<h3> in mammoth's HTML, so sections follow them.
+async function loadDocx(buffer) {
+    const { value } = await mammoth.convertToHtml({ buffer });
+    return loadHtml(value);
+}
+
+module.exports = { loadDocx };
@@ -0,0 +1,36 @@
+const JSZip = require('jszip');
+const path = require('path').posix;
+const { parse } = require('node-html-parser');
+const { loadHtml } = require('./html');
+const { finalizeSections } = require('./sections');
+
+// Reads chapters in spine order (container.xml -> OPF -> spine) and loads each
+// as HTML; the chapters' sections are then renumbered as one document.
+async function loadEpub(buffer) {
+    const zip = await JSZip.loadAsync(buffer);
+    const read = async name => {
+        const entry = zip.file(name);
+        if (!entry) throw new Error(`EPUB is missing ${name}`);
+        return entry.async('string');
+    };
+
+    const container = parse(await read('META-INF/container.xml'));
+    const opfPath = container.querySelector('rootfile')?.getAttribute('full-path');
+    if (!opfPath) throw new Error('EPUB container does not name a package file');
+
+    const opf = parse(await read(opfPath));
+    const manifest = new Map(opf.querySelectorAll('manifest item').map(item => [
+        item.getAttribute('id'),
+        path.join(path.dirname(opfPath), decodeURIComponent(item.getAttribute('href'))),
+    ]));
+
+    const sections = [];
+    for (const itemref of opf.querySelectorAll('spine itemref')) {
+        const href = manifest.get(itemref.getAttribute('idref'));
+        if (!href || !zip.file(href)) continue;
+        sections.push(...loadHtml(await read(href)));
+    }
+    return finalizeSections(sections);
+}
+
+module.exports = { loadEpub };
@@ -0,0 +1,49 @@
+const { parse } = require('node-html-parser');
+const { finalizeSections } = require('./sections');
+
+const HEADINGS = new Set(['h1', 'h2', 'h3']);
+const BLOCKS = new Set([
+    'p', 'div', 'section', 'article', 'li', 'tr', 'br', 'pre', 'blockquote',
+    'h4', 'h5', 'h6', 'table', 'ul', 'ol', 'dd', 'dt', 'figcaption',
+]);
+const SKIPPED = new Set(['script', 'style', 'noscript', 'template', 'head']);
+
+// Walks the document in order, starting a section at each h1-h3 and putting
+// block elements on their own lines.
+function loadHtml(content) {
+    const root = parse(content, { blockTextElements: { pre: true } });
+    const body = root.querySelector('body') || root;
+    const sections = [];
+    let current = { title: '', text: '' };
+
+    function walk(node) {
+        if (node.nodeType === 3) {
+            current.text += node.text.replace(/\s+/g, ' ');
+            return;
+        }
+        const tag = (node.rawTagName || '').toLowerCase();
+        if (SKIPPED.has(tag)) return;
+
+        if (HEADINGS.has(tag)) {
+            sections.push(current);
+            const title = node.text.replace(/\s+/g, ' ').trim();
+            current = { title, level: Number(tag[1]), text: `${title}\n` };
+            return;
+        }
+
+        const block = BLOCKS.has(tag);
+        if (block) current.text += '\n';
+        node.childNodes.forEach(walk);
+        if (block) current.text += '\n';
+    }
+
+    walk(body);
+    sections.push(current);
+
+    return finalizeSections(sections.map(s => ({
+        ...s,
+        text: s.text.split('\n').map(line => line.trim()).join('\n'),
+    })));
+}
+
+module.exports = { loadHtml };
@@ -0,0 +1,66 @@
+const path = require('path');
+const { loadPdf } = require('./pdf');
+const { loadText } = require('./text');
+const { loadMarkdown } = require('./markdown');
+const { loadHtml } = require('./html');
+const { loadDocx } = require('./docx');
+const { loadEpub } = require('./epub');
+
+// Source loaders keyed by MIME type and file extension. Every loader returns
+// numbered units `{ page, text }`: real pages for PDFs ("pdf" kind), or
+// heading-based sections with `title` and `anchor` for everything else ("text" kind).
+// `load(buffer, options)` may take `{ onOcrProgress(done, total), onOcrError(err) }`.
+const LOADERS = [
+    {
+        kind: 'pdf',
+        mimeTypes: ['application/pdf'],
+        extensions: ['.pdf'],
+        load: loadPdf,
+    },
+    {
+        kind: 'text',
+        mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+        extensions: ['.docx'],
+        load: loadDocx,
+    },
+    {
+        kind: 'text',
+        mimeTypes: ['text/markdown', 'text/x-markdown'],
+        extensions: ['.md', '.markdown'],
+        load: async buffer => loadMarkdown(buffer.toString('utf8')),
+    },
+    {
+        kind: 'text',
+        mimeTypes: ['text/html', 'application/xhtml+xml'],
+        extensions: ['.html', '.htm', '.xhtml'],
+        load: async buffer => loadHtml(buffer.toString('utf8')),
+    },
+    {
+        kind: 'text',
+        mimeTypes: ['application/epub+zip'],
+        extensions: ['.epub'],
+        load: loadEpub,
+    },
+    {
+        kind: 'text',
+        mimeTypes: ['text/plain'],
+        extensions: ['.txt', '.text'],
+        load: async buffer => loadText(buffer.toString('utf8')),
+    },
+];
+
+// Browsers often send a generic or empty MIME type for Markdown and EPUB, so
+// the extension wins when it is known.
+function getLoader({ originalname, mimetype }) {
+    const extension = path.extname(originalname || '').toLowerCase();
+    return LOADERS.find(l => l.extensions.includes(extension))
+        || LOADERS.find(l => l.mimeTypes.includes(mimetype))
+        || null;
+}
+
+// MIME type -> extensions, in the shape react-dropzone's `accept` option expects.
+function acceptedTypes() {
+    return Object.fromEntries(LOADERS.map(l => [l.mimeTypes[0], l.extensions]));
+}
+
+module.exports = { getLoader, acceptedTypes };
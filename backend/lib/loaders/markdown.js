@@ -0,0 +1,24 @@
+const { finalizeSections } = require('./sections');
+
+// Starts a new section at every ATX heading (# .. ######) outside code fences.
+function loadMarkdown(content) {
+    const sections = [];
+    let current = { title: '', text: '' };
+    let inFence = false;
+
+    for (const line of content.replace(/\r\n/g, '\n').split('\n')) {
+        if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+        const heading = !inFence && line.match(/^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/);
+        if (heading) {
+            sections.push(current);
+            current = { title: heading[2], level: heading[1].length, text: `${heading[2]}\n` };
+        } else {
+            current.text += `${line}\n`;
+        }
+    }
+    sections.push(current);
+
+    return finalizeSections(sections);
+}
+
+module.exports = { loadMarkdown };
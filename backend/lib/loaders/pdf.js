@@ -0,0 +1,67 @@
+const pdfParse = require('pdf-parse');
+const { getOcrConfig, needsOcr, ocrPdfPages } = require('../ocr');
+
+// Mirrors pdf-parse's default renderer, but keeps each page's text separate
+// so chunks can be traced back to the pages they came from.
+function renderPage(pageData, pages) {
+    return pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+        .then(textContent => {
+            let lastY;
+            let text = '';
+            for (const item of textContent.items) {
+                if (lastY === item.transform[5] || !lastY) {
+                    text += item.str;
+                } else {
+                    text += '\n' + item.str;
+                }
+                lastY = item.transform[5];
+            }
+            pages[pageData.pageIndex] = { page: pageData.pageIndex + 1, text };
+            return text;
+        });
+}
+
+async function extractPdfPages(buffer) {
+    const pages = [];
+    const pdfData = await pdfParse(buffer, { pagerender: pageData => renderPage(pageData, pages) });
+
+    // Pages that failed to render are skipped by pdf-parse; keep them as blanks
+    // so page numbers stay aligned with the document.
+    for (let i = 0; i < pdfData.numpages; i++) {
+        if (!pages[i]) pages[i] = { page: i + 1, text: '' };
+    }
+
+    return { numPages: pdfData.numpages, info: pdfData.info, pages };
+}
+
+// Text layer first, then OCR for pages whose text layer is missing or too thin.
+// Blank pages in a document that otherwise has a text layer are left alone.
+// OCR'd pages carry `ocr: { confidence }`; OCR output only replaces the text
+// layer when it found more text. If OCR fails the text layer is kept and
+// `onOcrError(err)` is called.
+async function loadPdf(buffer, { onOcrProgress = () => {}, onOcrError = () => {} } = {}) {
+    const { pages } = await extractPdfPages(buffer);
+    const config = getOcrConfig();
+    const hasTextLayer = pages.some(p => !needsOcr(p.text, config));
+    const scanned = config.enabled
+        ? pages.filter(p => needsOcr(p.text, config) && !(hasTextLayer && !p.text.trim())).map(p => p.page)
+        : [];
+    if (scanned.length === 0) return pages;
+
+    onOcrProgress(0, scanned.length);
+    let results;
+    try {
+        results = await ocrPdfPages(buffer, scanned, config, onOcrProgress);
+    } catch (err) {
+        onOcrError(err);
+        return pages;
+    }
+    for (const [page, { text, confidence }] of results) {
+        if (text.length > pages[page - 1].text.trim().length) {
+            pages[page - 1] = { page, text, ocr: { confidence } };
+        }
+    }
+    return pages;
+}
+
+module.exports = { extractPdfPages, loadPdf };
@@ -0,0 +1,29 @@
+// Helpers shared by the text-based loaders, which split documents into
+// sections at headings instead of pages.
+
+function slugify(title, used) {
+    const base = title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'section';
+    let slug = base;
+    for (let n = 2; used.has(slug); n++) slug = `${base}-${n}`;
+    used.add(slug);
+    return slug;
+}
+
+// Numbers sections like pages (1-based) and gives each a unique anchor.
+// Empty sections are dropped.
+function finalizeSections(sections) {
+    const used = new Set();
+    return sections
+        .map(s => ({ title: s.title.trim(), level: s.level, text: s.text.replace(/\n{3,}/g, '\n\n').trim() }))
+        .filter(s => s.text.length > 0)
+        .map((s, i) => ({
+            page: i + 1,
+            title: s.title || `Section ${i + 1}`,
+            anchor: slugify(s.title || `section-${i + 1}`, used),
+            // Heading depth (1 = top level); absent for untitled lead-in text.
+            ...(s.level ? { level: s.level } : {}),
+            text: s.text,
+        }));
+}
+
+module.exports = { finalizeSections };
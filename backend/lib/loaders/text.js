@@ -0,0 +1,22 @@
+const { finalizeSections } = require('./sections');
+
+const SECTION_TARGET_LENGTH = 4000;
+
+// Plain text has no headings, so paragraphs are grouped into parts of roughly
+// SECTION_TARGET_LENGTH characters.
+function loadText(content) {
+    const sections = [];
+    let current = { title: '', text: '' };
+    for (const paragraph of content.replace(/\r\n/g, '\n').split(/\n\s*\n/)) {
+        if (current.text.length > 0 && current.text.length + paragraph.length > SECTION_TARGET_LENGTH) {
+            sections.push(current);
+            current = { title: '', text: '' };
+        }
+        current.text += `${paragraph}\n\n`;
+    }
+    sections.push(current);
+
+    return finalizeSections(sections.map((s, i) => ({ ...s, title: `Part ${i + 1}` })));
+}
+
+module.exports = { loadText };
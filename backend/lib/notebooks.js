@@ -0,0 +1,237 @@
+const { v4: uuidv4 } = require('uuid');
+const { createVectorIndex, loadVectorIndex } = require('./vector');
+const { createBM25Index } = require('./bm25');
+const { getChunkingConfig } = require('./chunking');
+
+// Notebooks own any number of sources; their chunks are pooled into a single
+// vector index and BM25 index so retrieval runs across every document in the notebook. The live
+// objects are kept in memory and every change is written through to the store.
+function createNotebookRegistry(store) {
+    const notebooks = {};
+
+    // The BM25 index is cheap to build, so it is rebuilt from chunk text rather than persisted.
+    function buildLexicalIndex(notebook) {
+        notebook.lexicalIndex = createBM25Index(notebook.chunks.map(c => c.text));
+    }
+
+    async function rebuildIndex(notebook) {
+        buildLexicalIndex(notebook);
+        notebook.index = createVectorIndex(notebook.chunks.map(c => c.embedding));
+        notebook.vectorIndex = { type: notebook.index.type, size: notebook.index.size };
+        await store.saveIndex(notebook.id, notebook.index.toBuffer());
+    }
+
+    async function restoreIndex(notebook) {
+        const saved = loadVectorIndex(await store.loadIndex(notebook.id), notebook.vectorIndex);
+        if (saved && saved.size === notebook.chunks.length) {
+            notebook.index = saved;
+            buildLexicalIndex(notebook);
+        } else {
+            await rebuildIndex(notebook);
+            await store.saveNotebook(toRecord(notebook));
+        }
+    }
+
+    function toRecord(notebook) {
+        return {
+            id: notebook.id,
+            name: notebook.name,
+            createdAt: notebook.createdAt,
+            lastOpenedAt: notebook.lastOpenedAt,
+            chunkingStrategy: notebook.chunkingStrategy,
+            sources: notebook.sources,
+            messages: notebook.messages,
+            summary: notebook.summary,
+            summarizedCount: notebook.summarizedCount,
+            guide: notebook.guide,
+            artifacts: notebook.artifacts,
+            flashcards: notebook.flashcards,
+            quizzes: notebook.quizzes,
+            audioOverview: notebook.audioOverview,
+            notes: notebook.notes,
+            vectorIndex: notebook.vectorIndex,
+        };
+    }
+
+    function isLive(notebook) {
+        return notebooks[notebook.id] === notebook;
+    }
+
+    // Writes made after a notebook was deleted (e.g. a late chat reply) are dropped
+    // so they cannot bring its files back.
+    async function save(notebook) {
+        if (isLive(notebook)) await store.saveNotebook(toRecord(notebook));
+    }
+
+    // For the other files a notebook owns (source files, index, audio). A long
+    // job can be writing them while the notebook is deleted, so once the write
+    // lands anything it brought back is deleted again and the job fails.
+    async function writeLive(notebook, write) {
+        if (!isLive(notebook)) throw new Error('Notebook was deleted');
+        await write();
+        if (!isLive(notebook)) {
+            await store.deleteNotebook(notebook.id);
+            throw new Error('Notebook was deleted');
+        }
+    }
+
+    return {
+        async load() {
+            for (const record of await store.listNotebooks()) {
+                const notebook = {
+                    ...record,
+                    chunkingStrategy: record.chunkingStrategy || getChunkingConfig().strategy,
+                    messages: record.messages || [],
+                    notes: record.notes || [],
+                    // In source order, matching the order the index was built in.
+                    chunks: await store.loadChunks(record.id, record.sources.map(s => s.id)),
+                };
+                await restoreIndex(notebook);
+                notebooks[notebook.id] = notebook;
+            }
+            return Object.keys(notebooks).length;
+        },
+
+        get(id) {
+            return notebooks[id];
+        },
+
+        // Most recently opened first; notebooks never opened sort by creation time.
+        list() {
+            const recency = n => n.lastOpenedAt || n.createdAt;
+            return Object.values(notebooks).sort((a, b) => recency(b).localeCompare(recency(a)));
+        },
+
+        async create(name, { chunkingStrategy } = {}) {
+            const notebook = {
+                id: uuidv4(),
+                name: name || 'Untitled notebook',
+                createdAt: new Date().toISOString(),
+                lastOpenedAt: null,
+                chunkingStrategy: chunkingStrategy || getChunkingConfig().strategy,
+                sources: [],
+                messages: [],
+                notes: [],
+                summary: '',
+                summarizedCount: 0,
+                chunks: [],
+            };
+            await rebuildIndex(notebook);
+            await store.saveNotebook(toRecord(notebook));
+            notebooks[notebook.id] = notebook;
+            return notebook;
+        },
+
+        // Settings changes only apply to sources added afterwards.
+        async update(notebook, { name, chunkingStrategy }) {
+            if (name !== undefined) notebook.name = name;
+            if (chunkingStrategy !== undefined) notebook.chunkingStrategy = chunkingStrategy;
+            await save(notebook);
+        },
+
+        async markOpened(notebook) {
+            notebook.lastOpenedAt = new Date().toISOString();
+            await save(notebook);
+        },
+
+        // Removes the notebook with its sources, files and generated content.
+        async remove(notebook) {
+            delete notebooks[notebook.id];
+            await store.deleteNotebook(notebook.id);
+        },
+
+        async addSource(notebook, { source, chunks, content, original }) {
+            await writeLive(notebook, () => store.saveSourceChunks(notebook.id, source.id, chunks));
+            if (content) await writeLive(notebook, () => store.saveSourceContent(notebook.id, source.id, content));
+            if (original) await writeLive(notebook, () => store.saveSourceFile(notebook.id, source.id, original));
+            notebook.sources.push(source);
+            notebook.chunks.push(...chunks);
+            await writeLive(notebook, () => rebuildIndex(notebook));
+            await save(notebook);
+        },
+
+        async removeSource(notebook, sourceId) {
+            notebook.sources = notebook.sources.filter(s => s.id !== sourceId);
+            notebook.chunks = notebook.chunks.filter(c => c.sourceId !== sourceId);
+            await writeLive(notebook, () => rebuildIndex(notebook));
+            await save(notebook);
+            await store.deleteSource(notebook.id, sourceId);
+        },
+
+        // Extracted text of a source as numbered pages or sections
+        async getSourceContent(notebook, sourceId) {
+            return store.loadSourceContent(notebook.id, sourceId);
+        },
+
+        // The uploaded file as received; null for sources added before files were kept
+        async getSourceFile(notebook, sourceId) {
+            return store.loadSourceFile(notebook.id, sourceId);
+        },
+
+        async appendMessages(notebook, ...messages) {
+            notebook.messages.push(...messages);
+            await save(notebook);
+        },
+
+        async updateGuide(notebook, guide) {
+            notebook.guide = guide;
+            await save(notebook);
+        },
+
+        // Keeps the latest artifact of each type.
+        async saveArtifact(notebook, artifact) {
+            notebook.artifacts = { ...notebook.artifacts, [artifact.type]: artifact };
+            await save(notebook);
+        },
+
+        // Keeps the latest flashcard deck.
+        async saveFlashcards(notebook, deck) {
+            notebook.flashcards = deck;
+            await save(notebook);
+        },
+
+        // Adds a quiz, or saves answers given to one already in the notebook.
+        async saveQuiz(notebook, quiz) {
+            const quizzes = (notebook.quizzes || []).filter(q => q.id !== quiz.id);
+            notebook.quizzes = [...quizzes, quiz];
+            await save(notebook);
+        },
+
+        // Keeps the latest audio overview; its audio file, if rendered, replaces the previous one.
+        async saveAudioOverview(notebook, overview, audio) {
+            const previous = notebook.audioOverview;
+            if (audio) await writeLive(notebook, () => store.saveAudio(notebook.id, overview.id, audio));
+            notebook.audioOverview = overview;
+            await save(notebook);
+            if (previous?.audio && previous.id !== overview.id) await store.deleteAudio(notebook.id, previous.id);
+        },
+
+        async getAudio(notebook) {
+            const overview = notebook.audioOverview;
+            return overview?.audio ? store.loadAudio(notebook.id, overview.id) : null;
+        },
+
+        async addNote(notebook, note) {
+            notebook.notes.push(note);
+            await save(notebook);
+        },
+
+        async updateNote(notebook, note, changes) {
+            Object.assign(note, changes, { updatedAt: new Date().toISOString() });
+            await save(notebook);
+        },
+
+        async deleteNote(notebook, noteId) {
+            notebook.notes = notebook.notes.filter(n => n.id !== noteId);
+            await save(notebook);
+        },
+
+        async updateSummary(notebook, summary, summarizedCount) {
+            notebook.summary = summary;
+            notebook.summarizedCount = summarizedCount;
+            await save(notebook);
+        },
+    };
+}
+
+module.exports = { createNotebookRegistry };
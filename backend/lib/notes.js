@@ -0,0 +1,67 @@
+const { parse } = require('node-html-parser');
+
+// Notes are rich text kept as a small subset of HTML. Everything else is
+// stripped on save, so notes can be rendered as HTML safely and indexed with
+// the HTML loader when turned into a source.
+const ALLOWED_TAGS = new Set([
+    'p', 'br', 'div', 'strong', 'b', 'em', 'i', 'u', 's', 'code', 'pre', 'blockquote',
+    'h1', 'h2', 'h3', 'ul', 'ol', 'li', 'a',
+]);
+const DROPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'iframe', 'object', 'embed', 'head', 'title']);
+
+const MAX_NOTE_LENGTH = 200000;
+
+function escapeHtml(text) {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function sanitizeNode(node) {
+    if (node.nodeType === 3) return escapeHtml(node.text);
+    if (node.nodeType !== 1) return '';
+
+    const tag = (node.rawTagName || '').toLowerCase();
+    if (DROPPED_TAGS.has(tag)) return '';
+    const inner = node.childNodes.map(sanitizeNode).join('');
+    if (!ALLOWED_TAGS.has(tag)) return inner;
+    if (tag === 'br') return '<br>';
+    if (tag === 'a') {
+        const href = node.getAttribute('href') || '';
+        return /^(https?:|mailto:)/i.test(href.trim())
+            ? `<a href="${escapeHtml(href.trim())}" rel="noopener noreferrer" target="_blank">${inner}</a>`
+            : inner;
+    }
+    return `<${tag}>${inner}</${tag}>`;
+}
+
+function sanitizeNoteHtml(html) {
+    if (typeof html !== 'string') return '';
+    return sanitizeNode(parse(html.slice(0, MAX_NOTE_LENGTH), { blockTextElements: { pre: true } })).trim();
+}
+
+// Only the fields the UI needs to open a cited passage are kept.
+const CITATION_FIELDS = [
+    'number', 'source_id', 'source_name', 'chunk_id', 'page', 'end_page', 'section_title', 'anchor',
+    'section_path', 'snippet', 'start', 'end', 'page_start', 'page_end',
+];
+
+function sanitizeCitations(citations) {
+    if (!Array.isArray(citations)) return [];
+    return citations
+        .filter(c => c && typeof c === 'object' && Number.isFinite(c.page))
+        .map(c => Object.fromEntries(CITATION_FIELDS.filter(field => c[field] !== undefined).map(field => [field, c[field]])));
+}
+
+// The note as a standalone HTML document, with its citations written out as a
+// reference list so the indexed text keeps them.
+function noteToHtml(note) {
+    const references = note.citations.length > 0
+        ? '<h2>References</h2><ol>' + note.citations.map(c => {
+            const where = c.section_title ? `section "${c.section_title}"` : `page ${c.page}`;
+            return `<li>${c.number ? `[${c.number}] ` : ''}${escapeHtml(c.source_name || 'Source')}, ${escapeHtml(where)}</li>`;
+        }).join('') + '</ol>'
+        : '';
+    return `<!DOCTYPE html><html><head><title>${escapeHtml(note.title)}</title></head>`
+        + `<body><h1>${escapeHtml(note.title)}</h1>${note.content}${references}</body></html>`;
+}
+
+module.exports = { sanitizeNoteHtml, sanitizeCitations, noteToHtml };
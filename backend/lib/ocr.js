@@ -0,0 +1,81 @@
+const path = require('path');
+const { createWorker } = require('tesseract.js');
+
+// Scanned PDFs have little or no text layer, so pages below `minChars` are
+// rendered to images and run through Tesseract on the CPU instead.
+function getOcrConfig(env = process.env) {
+    return {
+        enabled: env.OCR_ENABLED !== 'false',
+        minChars: parseInt(env.OCR_MIN_CHARS ?? '20', 10),
+        languages: env.OCR_LANGUAGES || 'eng',
+        scale: parseFloat(env.OCR_SCALE) || 2,
+        // Where Tesseract fetches and caches language data; defaults to its CDN
+        // and the working directory.
+        langPath: env.OCR_LANG_PATH || undefined,
+        cachePath: env.OCR_CACHE_PATH || undefined,
+    };
+}
+
+function needsOcr(text, config) {
+    return text.replace(/\s+/g, '').length < config.minChars;
+}
+
+// pdf-parse's bundled pdf.js cannot render, so pages are drawn with pdfjs-dist,
+// which is only published as an ES module. Its canvas factory must be used for
+// the page canvas: it is backed by the same native canvas build pdf.js draws with.
+let pdfjs;
+function loadPdfjs() {
+    if (!pdfjs) pdfjs = import('pdfjs-dist/legacy/build/pdf.mjs');
+    return pdfjs;
+}
+
+const pdfjsDir = path.dirname(require.resolve('pdfjs-dist/package.json'));
+
+async function renderPage(doc, pageNumber, scale) {
+    const page = await doc.getPage(pageNumber);
+    try {
+        const viewport = page.getViewport({ scale });
+        const { canvas, context } = doc.canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        await page.render({ canvas, canvasContext: context, viewport }).promise;
+        const image = canvas.toBuffer('image/png');
+        doc.canvasFactory.destroy({ canvas, context });
+        return image;
+    } finally {
+        page.cleanup();
+    }
+}
+
+// Recognises the given 1-based pages of a PDF. Resolves to a Map of page
+// number -> `{ text, confidence }`, with confidence from 0 to 100.
+// `onPage(done, total)` is called after each page.
+async function ocrPdfPages(buffer, pageNumbers, config = getOcrConfig(), onPage = () => {}) {
+    const { getDocument } = await loadPdfjs();
+    const doc = await getDocument({
+        data: new Uint8Array(buffer),
+        standardFontDataUrl: path.join(pdfjsDir, 'standard_fonts/'),
+        cMapUrl: path.join(pdfjsDir, 'cmaps/'),
+        verbosity: 0,
+    }).promise;
+    const worker = await createWorker(config.languages, undefined, {
+        langPath: config.langPath,
+        cachePath: config.cachePath,
+    });
+
+    const results = new Map();
+    try {
+        for (const [i, pageNumber] of pageNumbers.entries()) {
+            const image = await renderPage(doc, pageNumber, config.scale);
+            const { data } = await worker.recognize(image);
+            results.set(pageNumber, { text: data.text.trim(), confidence: Math.round(data.confidence) });
+            onPage(i + 1, pageNumbers.length);
+        }
+    } finally {
+        await worker.terminate();
+        await doc.destroy();
+    }
+    return results;
+}
+
+module.exports = { getOcrConfig, needsOcr, ocrPdfPages };
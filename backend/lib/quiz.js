@@ -0,0 +1,209 @@
+const { v4: uuidv4 } = require('uuid');
+const { parseJsonReply } = require('./llm/json');
+const { buildCitations } = require('./citations');
+const { tokenize } = require('./bm25');
+
+// Flashcards and quizzes written from a source's chunks (or the whole
+// notebook's). Every card and question points at the passage it came from, so
+// the UI can open the cited page; quiz answers are graded here and the score
+// is kept with the quiz.
+function getQuizConfig(env = process.env) {
+    return {
+        contextChars: parseInt(env.QUIZ_CONTEXT_CHARS, 10) || 10000,
+        maxTokens: parseInt(env.QUIZ_MAX_TOKENS, 10) || 1500,
+        flashcards: parseInt(env.QUIZ_FLASHCARDS, 10) || 12,
+        questions: parseInt(env.QUIZ_QUESTIONS, 10) || 8,
+    };
+}
+
+const MAX_ITEMS = 30;
+
+// Evenly spaced chunks, so questions cover the whole document rather than its opening.
+function samplePassages(notebook, sourceId, budget) {
+    const chunks = notebook.chunks.filter(c => !sourceId || c.sourceId === sourceId);
+    if (chunks.length === 0) return [];
+    const average = chunks.reduce((sum, c) => sum + c.text.length, 0) / chunks.length;
+    const count = Math.max(1, Math.min(chunks.length, Math.floor(budget / (average || 1))));
+    const step = chunks.length / count;
+    const picked = Array.from({ length: count }, (_, i) => chunks[Math.floor(i * step)]);
+    return picked.map((chunk, i) => ({
+        number: i + 1,
+        chunk,
+        source: notebook.sources.find(s => s.id === chunk.sourceId),
+    }));
+}
+
+function overlap(a, b) {
+    const terms = new Set(tokenize(a));
+    return tokenize(b).filter(t => terms.has(t)).length;
+}
+
+// The citation for an item: the passage it names, or else the passage sharing
+// the most words with it.
+function citeItem(passages, number, text) {
+    let passage = passages[number - 1];
+    if (!passage) {
+        passage = passages.reduce((best, p) => (overlap(text, p.chunk.text) > overlap(text, best.chunk.text) ? p : best));
+    }
+    const { number: _, ...citation } = buildCitations([{ chunk: passage.chunk, source: passage.source, score: null }], text)[0];
+    return citation;
+}
+
+function cleanString(value) {
+    return typeof value === 'string' ? value.trim() : '';
+}
+
+function clampCount(count, fallback) {
+    const n = parseInt(count, 10);
+    return Math.min(MAX_ITEMS, Math.max(1, Number.isFinite(n) ? n : fallback));
+}
+
+async function ask(llm, passages, instructions, config) {
+    const context = passages.map(p => `[${p.number}] (${p.source.name}, page ${p.chunk.metadata.page})\n${p.chunk.text}`).join('\n\n');
+    const prompt = `Passages:\n${context}\n\n${instructions}\n`
+        + 'Base everything only on the passages, and set "passage" to the number of the passage each item comes from. '
+        + 'Reply with the JSON object only.';
+    return parseJsonReply(await llm.complete([{ role: 'user', content: prompt }], { maxTokens: config.maxTokens }));
+}
+
+// Offline fallbacks for replies that aren't usable JSON (e.g. the mock
+// provider): fill-in-the-blank items cut from the passages' sentences.
+const CLOZE_WORD = /\p{L}[\p{L}\p{N}-]{5,}/gu;
+
+function clozeCandidates(passage) {
+    return passage.chunk.text.split(/(?<=[.!?])\s+|\n+/).map(s => s.trim()).flatMap(sentence => {
+        const words = sentence.match(CLOZE_WORD);
+        if (!words || sentence.length < 30 || sentence.length > 300) return [];
+        const answer = words.reduce((a, b) => (b.length > a.length ? b : a));
+        return [{ passage, sentence, answer, blank: sentence.replace(answer, '_____') }];
+    });
+}
+
+// Takes a sentence from each passage in turn, so items spread over the document.
+function clozeItems(passages, count) {
+    const candidates = passages.map(clozeCandidates);
+    const items = [];
+    for (let round = 0; items.length < count && candidates.some(c => c.length > round); round++) {
+        for (const list of candidates) {
+            if (list[round] && items.length < count) items.push(list[round]);
+        }
+    }
+    return items;
+}
+
+async function generateFlashcards(llm, notebook, { sourceId, count } = {}, config = getQuizConfig()) {
+    const passages = samplePassages(notebook, sourceId, config.contextChars);
+    if (passages.length === 0) return null;
+    const wanted = clampCount(count, config.flashcards);
+
+    const parsed = await ask(llm, passages, `Write ${wanted} flashcards for studying these passages as JSON: `
+        + '{ "cards": [{ "front": string (a term or question), "back": string (the definition or answer), "passage": number }] }', config);
+    let cards = (Array.isArray(parsed?.cards) ? parsed.cards : [])
+        .map(card => ({ front: cleanString(card?.front), back: cleanString(card?.back), passage: card?.passage }))
+        .filter(card => card.front && card.back)
+        .slice(0, wanted)
+        .map(card => ({ front: card.front, back: card.back, citation: citeItem(passages, card.passage, `${card.front} ${card.back}`) }));
+
+    if (cards.length === 0) {
+        cards = clozeItems(passages, wanted).map(item => ({
+            front: item.blank,
+            back: item.answer,
+            citation: citeItem(passages, item.passage.number, item.sentence),
+        }));
+    }
+
+    return { id: uuidv4(), sourceId: sourceId || null, cards, createdAt: new Date().toISOString() };
+}
+
+function cleanQuestion(raw) {
+    const question = cleanString(raw?.question);
+    if (!question) return null;
+    const options = Array.isArray(raw.options) ? raw.options.map(cleanString).filter(Boolean) : [];
+    const answerIndex = parseInt(raw.answer_index, 10);
+    if (raw.type === 'multiple_choice' && options.length >= 2 && options[answerIndex]) {
+        return { type: 'multiple_choice', question, options, answerIndex, answer: options[answerIndex] };
+    }
+    const answer = cleanString(raw.answer);
+    return answer ? { type: 'short_answer', question, answer } : null;
+}
+
+async function generateQuiz(llm, notebook, { sourceId, count } = {}, config = getQuizConfig()) {
+    const passages = samplePassages(notebook, sourceId, config.contextChars);
+    if (passages.length === 0) return null;
+    const wanted = clampCount(count, config.questions);
+
+    const parsed = await ask(llm, passages, `Write a quiz of ${wanted} questions on these passages, mostly multiple choice `
+        + 'with a few short-answer questions, as JSON: { "questions": [{ "type": "multiple_choice" | "short_answer", '
+        + '"question": string, "options": [string] (4 options, multiple choice only), "answer_index": number (multiple choice only), '
+        + '"answer": string (short answer only, a few words), "explanation": string, "passage": number }] }', config);
+    let questions = (Array.isArray(parsed?.questions) ? parsed.questions : [])
+        .map(raw => {
+            const question = cleanQuestion(raw);
+            if (!question) return null;
+            const explanation = cleanString(raw.explanation);
+            return { ...question, explanation, citation: citeItem(passages, raw.passage, `${question.question} ${question.answer} ${explanation}`) };
+        })
+        .filter(Boolean)
+        .slice(0, wanted);
+
+    if (questions.length === 0) {
+        const items = clozeItems(passages, wanted);
+        const distractors = [...new Set(items.map(item => item.answer))];
+        questions = items.map((item, i) => {
+            const others = distractors.filter(d => d.toLowerCase() !== item.answer.toLowerCase()).slice(0, 3);
+            const explanation = `The source says: "${item.sentence}"`;
+            const citation = citeItem(passages, item.passage.number, item.sentence);
+            if (others.length < 2 || i % 3 === 2) {
+                return { type: 'short_answer', question: `Fill in the blank: ${item.blank}`, answer: item.answer, explanation, citation };
+            }
+            const options = [...others];
+            const answerIndex = i % (options.length + 1);
+            options.splice(answerIndex, 0, item.answer);
+            return { type: 'multiple_choice', question: `Fill in the blank: ${item.blank}`, options, answerIndex, answer: item.answer, explanation, citation };
+        });
+    }
+
+    return {
+        id: uuidv4(),
+        sourceId: sourceId || null,
+        questions: questions.map(q => ({ id: uuidv4(), ...q })),
+        answers: {},
+        createdAt: new Date().toISOString(),
+    };
+}
+
+function normalize(text) {
+    return tokenize(text).join(' ');
+}
+
+// Short answers match when they contain the expected answer; otherwise the
+// model judges them, falling back to word overlap if its reply is unclear.
+async function gradeShortAnswer(llm, question, answer) {
+    const given = normalize(answer);
+    const expected = normalize(question.answer);
+    if (!given) return false;
+    if (` ${given} `.includes(` ${expected} `)) return true;
+
+    const prompt = `Question: ${question.question}\nExpected answer: ${question.answer}\nStudent answer: ${answer}\n\n`
+        + 'Does the student answer mean the same as the expected answer? Minor spelling mistakes are fine. '
+        + 'Reply with CORRECT or INCORRECT only.';
+    const verdict = (await llm.complete([{ role: 'user', content: prompt }], { maxTokens: 5 })).trim().toUpperCase();
+    if (verdict.startsWith('CORRECT')) return true;
+    if (verdict.startsWith('INCORRECT')) return false;
+
+    const expectedTerms = tokenize(question.answer);
+    return expectedTerms.length > 0 && overlap(answer, question.answer) / expectedTerms.length >= 0.6;
+}
+
+// `answer` is an option index for multiple choice and text for short answers.
+async function gradeAnswer(llm, question, answer) {
+    if (question.type === 'multiple_choice') return parseInt(answer, 10) === question.answerIndex;
+    return gradeShortAnswer(llm, question, String(answer ?? ''));
+}
+
+function quizScore(quiz) {
+    const answered = Object.values(quiz.answers);
+    return { correct: answered.filter(a => a.correct).length, answered: answered.length, total: quiz.questions.length };
+}
+
+module.exports = { getQuizConfig, generateFlashcards, generateQuiz, gradeAnswer, quizScore };
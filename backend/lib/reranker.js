@@ -0,0 +1,31 @@
+const { AutoTokenizer, AutoModelForSequenceClassification } = require('@xenova/transformers');
+
+const modelName = process.env.RERANK_MODEL || 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+let reranker;
+async function getReranker() {
+    if (!reranker) {
+        reranker = Promise.all([
+            AutoTokenizer.from_pretrained(modelName),
+            AutoModelForSequenceClassification.from_pretrained(modelName, { quantized: true }),
+        ]).then(([tokenizer, model]) => ({ tokenizer, model }));
+        // Let a failed load be retried on the next request.
+        reranker.catch(() => { reranker = null; });
+    }
+    return reranker;
+}
+
+// Scores each (query, text) pair with a cross-encoder; higher means more relevant.
+async function rerankScores(query, texts) {
+    if (texts.length === 0) return [];
+    const { tokenizer, model } = await getReranker();
+    const inputs = tokenizer(new Array(texts.length).fill(query), {
+        text_pair: texts,
+        padding: true,
+        truncation: true,
+    });
+    const { logits } = await model(inputs);
+    return Array.from(logits.data).map(Number);
+}
+
+module.exports = { rerankScores };
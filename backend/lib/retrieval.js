@@ -0,0 +1,74 @@
+const { embed } = require('./embeddings');
+const { rerankScores } = require('./reranker');
+
+// Defaults for hybrid retrieval; each can be overridden per request.
+function getRetrievalConfig(env = process.env) {
+    return {
+        k: parseInt(env.RETRIEVAL_TOP_K, 10) || 3,
+        candidates: parseInt(env.RETRIEVAL_CANDIDATES, 10) || 20,
+        vectorWeight: parseFloat(env.RETRIEVAL_VECTOR_WEIGHT ?? '1'),
+        keywordWeight: parseFloat(env.RETRIEVAL_KEYWORD_WEIGHT ?? '1'),
+        rrfK: parseInt(env.RETRIEVAL_RRF_K, 10) || 60,
+        rerank: env.RERANK_ENABLED !== 'false',
+        rerankCandidates: parseInt(env.RERANK_CANDIDATES, 10) || 30,
+    };
+}
+
+// Weighted reciprocal rank fusion: every ranked list contributes
+// weight / (rrfK + rank) for each chunk it returns.
+function fuseRankings(rankings, rrfK) {
+    const fused = new Map();
+    for (const { name, indices, weight } of rankings) {
+        if (!weight) continue;
+        indices.forEach((index, rank) => {
+            const entry = fused.get(index) || { index, score: 0, ranks: {} };
+            entry.score += weight / (rrfK + rank + 1);
+            entry.ranks[name] = rank + 1;
+            fused.set(index, entry);
+        });
+    }
+    return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+// Re-scores fused candidates with the cross-encoder and keeps the best `k`.
+async function rerank(notebook, query, candidates, k) {
+    const scores = await rerankScores(query, candidates.map(c => notebook.chunks[c.index].text));
+    return candidates
+        .map((candidate, i) => ({ ...candidate, rerankScore: scores[i] }))
+        .sort((a, b) => b.rerankScore - a.rerankScore)
+        .slice(0, k);
+}
+
+// Runs embedding and BM25 search over the notebook and fuses the two lists,
+// then optionally reranks the top `rerankCandidates` with a cross-encoder.
+// Returns the top `k` chunk positions with their scores and per-list ranks.
+async function retrieve(notebook, query, options = {}) {
+    const config = { ...getRetrievalConfig(), ...options };
+    const { index, lexicalIndex } = notebook;
+    const poolSize = config.rerank ? config.rerankCandidates : config.k;
+    const candidates = Math.max(config.candidates, poolSize);
+
+    const vector = config.vectorWeight > 0
+        ? index.search(await embed(query), candidates)
+        : { indices: [] };
+    const keyword = config.keywordWeight > 0 && lexicalIndex
+        ? lexicalIndex.search(query, candidates)
+        : { indices: [] };
+
+    const fused = fuseRankings([
+        { name: 'vector', indices: vector.indices || [], weight: config.vectorWeight },
+        { name: 'keyword', indices: keyword.indices || [], weight: config.keywordWeight },
+    ], config.rrfK).slice(0, poolSize);
+
+    if (!config.rerank || fused.length <= 1) return fused.slice(0, config.k);
+    try {
+        return await rerank(notebook, query, fused, config.k);
+    } catch (err) {
+        // The cross-encoder only refines the order, so a model that fails to load
+        // or run falls back to the fused ranking instead of failing the request.
+        console.error('Rerank error, using fused ranking:', err.message);
+        return fused.slice(0, config.k);
+    }
+}
+
+module.exports = { retrieve, fuseRankings, getRetrievalConfig };
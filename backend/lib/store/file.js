@@ -0,0 +1,172 @@
+const crypto = require('crypto');
+const fs = require('fs/promises');
+const path = require('path');
+
+// Stores each notebook in its own directory:
+//   <dataDir>/notebooks/<id>/notebook.json        metadata, sources, chat history
+//   <dataDir>/notebooks/<id>/sources/<sourceId>.json  chunks with their vectors
+//   <dataDir>/notebooks/<id>/content/<sourceId>.json  extracted text by page or section
+//   <dataDir>/notebooks/<id>/files/<sourceId>     the uploaded file as received
+//   <dataDir>/notebooks/<id>/index.bin            serialized vector index, if any
+//   <dataDir>/notebooks/<id>/audio/<audioId>.wav  rendered audio overviews
+function createFileStore(dataDir) {
+    const root = path.join(dataDir, 'notebooks');
+    const notebookDir = id => path.join(root, id);
+    const sourcesDir = id => path.join(notebookDir(id), 'sources');
+    const contentDir = id => path.join(notebookDir(id), 'content');
+    const sourceFile = (id, sourceId) => path.join(notebookDir(id), 'files', sourceId);
+    const audioFile = (id, audioId) => path.join(notebookDir(id), 'audio', `${audioId}.wav`);
+
+    // Writes to a temp file first so a crash mid-write never leaves a truncated
+    // file behind. Each write gets its own temp name, so overlapping writes of
+    // the same file cannot interleave or rename each other's temp file away.
+    async function writeFileAtomic(file, contents) {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        const tmp = `${file}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+        try {
+            await fs.writeFile(tmp, contents);
+            await fs.rename(tmp, file);
+        } catch (err) {
+            await fs.rm(tmp, { force: true });
+            throw err;
+        }
+    }
+
+    async function writeJson(file, data) {
+        await writeFileAtomic(file, JSON.stringify(data));
+    }
+
+    // Changes to one notebook run one at a time, in the order they were made,
+    // so the last save always wins. A failed change does not block later ones.
+    const queues = new Map();
+    function serialize(notebookId, task) {
+        const run = (queues.get(notebookId) || Promise.resolve()).then(task);
+        const tail = run.catch(() => {});
+        queues.set(notebookId, tail);
+        tail.then(() => {
+            if (queues.get(notebookId) === tail) queues.delete(notebookId);
+        });
+        return run;
+    }
+
+    async function readJson(file) {
+        return JSON.parse(await fs.readFile(file, 'utf8'));
+    }
+
+    async function listDir(dir) {
+        try {
+            return await fs.readdir(dir);
+        } catch (err) {
+            if (err.code === 'ENOENT') return [];
+            throw err;
+        }
+    }
+
+    return {
+        async listNotebooks() {
+            const notebooks = [];
+            for (const id of await listDir(root)) {
+                try {
+                    notebooks.push(await readJson(path.join(notebookDir(id), 'notebook.json')));
+                } catch (err) {
+                    console.error(`Skipping unreadable notebook ${id}:`, err.message);
+                }
+            }
+            return notebooks;
+        },
+
+        // Chunks of the given sources, in that order; the saved index refers to chunks by position.
+        async loadChunks(notebookId, sourceIds) {
+            const chunks = await Promise.all(sourceIds.map(async sourceId => {
+                try {
+                    return await readJson(path.join(sourcesDir(notebookId), `${sourceId}.json`));
+                } catch (err) {
+                    if (err.code === 'ENOENT') return [];
+                    throw err;
+                }
+            }));
+            return chunks.flat();
+        },
+
+        async saveNotebook(notebook) {
+            // Serialized now, so later changes to the live object don't leak into this write.
+            const json = JSON.stringify(notebook);
+            await serialize(notebook.id, () => writeFileAtomic(path.join(notebookDir(notebook.id), 'notebook.json'), json));
+        },
+
+        async saveSourceChunks(notebookId, sourceId, chunks) {
+            await serialize(notebookId, () => writeJson(path.join(sourcesDir(notebookId), `${sourceId}.json`), chunks));
+        },
+
+        async loadSourceContent(notebookId, sourceId) {
+            try {
+                return await readJson(path.join(contentDir(notebookId), `${sourceId}.json`));
+            } catch (err) {
+                if (err.code === 'ENOENT') return null;
+                throw err;
+            }
+        },
+
+        async saveSourceContent(notebookId, sourceId, content) {
+            await serialize(notebookId, () => writeJson(path.join(contentDir(notebookId), `${sourceId}.json`), content));
+        },
+
+        async loadSourceFile(notebookId, sourceId) {
+            try {
+                return await fs.readFile(sourceFile(notebookId, sourceId));
+            } catch (err) {
+                if (err.code === 'ENOENT') return null;
+                throw err;
+            }
+        },
+
+        async saveSourceFile(notebookId, sourceId, buffer) {
+            await serialize(notebookId, () => writeFileAtomic(sourceFile(notebookId, sourceId), buffer));
+        },
+
+        async loadIndex(notebookId) {
+            try {
+                return await fs.readFile(path.join(notebookDir(notebookId), 'index.bin'));
+            } catch (err) {
+                if (err.code === 'ENOENT') return null;
+                throw err;
+            }
+        },
+
+        async saveIndex(notebookId, buffer) {
+            const file = path.join(notebookDir(notebookId), 'index.bin');
+            await serialize(notebookId, () => (buffer ? writeFileAtomic(file, buffer) : fs.rm(file, { force: true })));
+        },
+
+        async loadAudio(notebookId, audioId) {
+            try {
+                return await fs.readFile(audioFile(notebookId, audioId));
+            } catch (err) {
+                if (err.code === 'ENOENT') return null;
+                throw err;
+            }
+        },
+
+        async saveAudio(notebookId, audioId, buffer) {
+            await serialize(notebookId, () => writeFileAtomic(audioFile(notebookId, audioId), buffer));
+        },
+
+        async deleteAudio(notebookId, audioId) {
+            await serialize(notebookId, () => fs.rm(audioFile(notebookId, audioId), { force: true }));
+        },
+
+        async deleteSource(notebookId, sourceId) {
+            await serialize(notebookId, async () => {
+                await fs.rm(path.join(sourcesDir(notebookId), `${sourceId}.json`), { force: true });
+                await fs.rm(path.join(contentDir(notebookId), `${sourceId}.json`), { force: true });
+                await fs.rm(sourceFile(notebookId, sourceId), { force: true });
+            });
+        },
+
+        async deleteNotebook(notebookId) {
+            await serialize(notebookId, () => fs.rm(notebookDir(notebookId), { recursive: true, force: true }));
+        },
+    };
+}
+
+module.exports = { createFileStore };
@@ -0,0 +1,18 @@
+const path = require('path');
+const { createMemoryStore } = require('./memory');
+const { createFileStore } = require('./file');
+
+// STORE_DRIVER selects where notebooks are kept: "file" (default) persists to
+// DATA_DIR, "memory" keeps the old in-process behaviour.
+function createStore(driver = process.env.STORE_DRIVER || 'file') {
+    switch (driver) {
+        case 'memory':
+            return createMemoryStore();
+        case 'file':
+            return createFileStore(process.env.DATA_DIR || path.join(__dirname, '..', '..', 'data'));
+        default:
+            throw new Error(`Unknown STORE_DRIVER "${driver}"`);
+    }
+}
+
+module.exports = { createStore };
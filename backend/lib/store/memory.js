@@ -0,0 +1,87 @@
+// Keeps everything in process memory. Nothing survives a restart, which is
+// what tests and throwaway runs want.
+function createMemoryStore() {
+    const notebooks = new Map();
+    const chunks = new Map();
+    const indexes = new Map();
+    const contents = new Map();
+    const audio = new Map();
+    const files = new Map();
+
+    return {
+        async listNotebooks() {
+            return [...notebooks.values()].map(n => structuredClone(n));
+        },
+
+        async loadChunks(notebookId, sourceIds) {
+            const bySource = chunks.get(notebookId) || new Map();
+            return sourceIds.flatMap(id => bySource.get(id) || []).map(c => structuredClone(c));
+        },
+
+        async saveNotebook(notebook) {
+            notebooks.set(notebook.id, structuredClone(notebook));
+        },
+
+        async saveSourceChunks(notebookId, sourceId, sourceChunks) {
+            if (!chunks.has(notebookId)) chunks.set(notebookId, new Map());
+            chunks.get(notebookId).set(sourceId, structuredClone(sourceChunks));
+        },
+
+        async loadSourceContent(notebookId, sourceId) {
+            const content = contents.get(`${notebookId}/${sourceId}`);
+            return content ? structuredClone(content) : null;
+        },
+
+        async saveSourceContent(notebookId, sourceId, content) {
+            contents.set(`${notebookId}/${sourceId}`, structuredClone(content));
+        },
+
+        async loadSourceFile(notebookId, sourceId) {
+            return files.get(`${notebookId}/${sourceId}`) || null;
+        },
+
+        async saveSourceFile(notebookId, sourceId, buffer) {
+            files.set(`${notebookId}/${sourceId}`, buffer);
+        },
+
+        async loadIndex(notebookId) {
+            return indexes.get(notebookId) || null;
+        },
+
+        async saveIndex(notebookId, buffer) {
+            if (buffer) indexes.set(notebookId, buffer);
+            else indexes.delete(notebookId);
+        },
+
+        async loadAudio(notebookId, audioId) {
+            return audio.get(`${notebookId}/${audioId}`) || null;
+        },
+
+        async saveAudio(notebookId, audioId, buffer) {
+            audio.set(`${notebookId}/${audioId}`, buffer);
+        },
+
+        async deleteAudio(notebookId, audioId) {
+            audio.delete(`${notebookId}/${audioId}`);
+        },
+
+        async deleteSource(notebookId, sourceId) {
+            chunks.get(notebookId)?.delete(sourceId);
+            contents.delete(`${notebookId}/${sourceId}`);
+            files.delete(`${notebookId}/${sourceId}`);
+        },
+
+        async deleteNotebook(notebookId) {
+            notebooks.delete(notebookId);
+            chunks.delete(notebookId);
+            indexes.delete(notebookId);
+            for (const map of [contents, audio, files]) {
+                for (const key of map.keys()) {
+                    if (key.startsWith(`${notebookId}/`)) map.delete(key);
+                }
+            }
+        },
+    };
+}
+
+module.exports = { createMemoryStore };
@@ -0,0 +1,24 @@
+const { spawn } = require('child_process');
+
+// Runs a TTS command line, writing `input` to its stdin, and resolves with its
+// stdout. Fails with the command's stderr if it exits non-zero.
+function runCommand(command, args, { input, signal } = {}) {
+    return new Promise((resolve, reject) => {
+        const child = spawn(command, args, { signal });
+        const stdout = [];
+        const stderr = [];
+        child.stdout.on('data', data => stdout.push(data));
+        child.stderr.on('data', data => stderr.push(data));
+        child.on('error', err => {
+            reject(err.code === 'ENOENT' ? new Error(`TTS command not found: ${command}`) : err);
+        });
+        child.on('close', code => {
+            if (code === 0) resolve(Buffer.concat(stdout));
+            else reject(new Error(`${command} exited with code ${code}: ${Buffer.concat(stderr).toString().trim()}`));
+        });
+        child.stdin.on('error', () => {});
+        child.stdin.end(input ?? '');
+    });
+}
+
+module.exports = { runCommand };
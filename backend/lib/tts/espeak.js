@@ -0,0 +1,18 @@
+const { runCommand } = require('./command');
+
+// eSpeak NG: small, fast and robotic. Voices are eSpeak voice names, e.g.
+// "en-us+m3" and "en-us+f3".
+function createEspeakProvider({ command, voices, rate }) {
+    return {
+        name: 'espeak',
+        voices,
+
+        async synthesize(text, voice, { signal } = {}) {
+            const args = ['-v', voice, '--stdout', '--stdin'];
+            if (rate) args.push('-s', String(rate));
+            return runCommand(command, args, { input: text, signal });
+        },
+    };
+}
+
+module.exports = { createEspeakProvider };
@@ -0,0 +1,35 @@
+const { createEspeakProvider } = require('./espeak');
+const { createPiperProvider } = require('./piper');
+
+// TTS_PROVIDER picks the engine that reads audio overviews aloud:
+//   none    scripts only, no audio (default)
+//   espeak  eSpeak NG command line (TTS_COMMAND, default "espeak-ng")
+//   piper   Piper command line (TTS_COMMAND, default "piper"); voices are model paths
+// TTS_VOICE_A and TTS_VOICE_B are the voices of the two speakers.
+// Returns null when audio is disabled.
+function createTTS(env = process.env) {
+    const provider = env.TTS_PROVIDER || 'none';
+
+    switch (provider) {
+        case 'none':
+            return null;
+        case 'espeak':
+            return createEspeakProvider({
+                command: env.TTS_COMMAND || 'espeak-ng',
+                voices: [env.TTS_VOICE_A || 'en-us+m3', env.TTS_VOICE_B || 'en-us+f3'],
+                rate: parseInt(env.TTS_RATE, 10) || undefined,
+            });
+        case 'piper':
+            if (!env.TTS_VOICE_A || !env.TTS_VOICE_B) {
+                throw new Error('TTS_VOICE_A and TTS_VOICE_B (voice model paths) are required for the piper provider');
+            }
+            return createPiperProvider({
+                command: env.TTS_COMMAND || 'piper',
+                voices: [env.TTS_VOICE_A, env.TTS_VOICE_B],
+            });
+        default:
+            throw new Error(`Unknown TTS_PROVIDER "${provider}"`);
+    }
+}
+
+module.exports = { createTTS };
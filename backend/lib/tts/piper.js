@@ -0,0 +1,26 @@
+const fs = require('fs/promises');
+const os = require('os');
+const path = require('path');
+const { runCommand } = require('./command');
+
+// Piper: local neural voices. Each voice is a path to a .onnx voice model
+// (with its .onnx.json config next to it).
+function createPiperProvider({ command, voices }) {
+    return {
+        name: 'piper',
+        voices,
+
+        async synthesize(text, voice, { signal } = {}) {
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'piper-'));
+            const file = path.join(dir, 'line.wav');
+            try {
+                await runCommand(command, ['--model', voice, '--output_file', file], { input: text, signal });
+                return await fs.readFile(file);
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true });
+            }
+        },
+    };
+}
+
+module.exports = { createPiperProvider };
@@ -0,0 +1,70 @@
+// Minimal PCM WAV handling: enough to join the clips a TTS engine writes for
+// each line of a script into one file.
+
+function parseWav(buffer) {
+    if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+        throw new Error('TTS engine did not return a WAV file');
+    }
+    let format = null;
+    let data = null;
+    for (let offset = 12; offset + 8 <= buffer.length;) {
+        const id = buffer.toString('ascii', offset, offset + 4);
+        // Engines writing to a pipe can't seek back to fill in sizes, so an
+        // oversized data chunk means "until the end of the file".
+        const size = Math.min(buffer.readUInt32LE(offset + 4), buffer.length - offset - 8);
+        const body = buffer.subarray(offset + 8, offset + 8 + size);
+        if (id === 'fmt ') {
+            format = {
+                audioFormat: body.readUInt16LE(0),
+                channels: body.readUInt16LE(2),
+                sampleRate: body.readUInt32LE(4),
+                bitsPerSample: body.readUInt16LE(14),
+            };
+        } else if (id === 'data') {
+            data = body;
+        }
+        offset += 8 + size + (size % 2);
+    }
+    if (!format || !data) throw new Error('WAV file has no fmt or data chunk');
+    if (format.audioFormat !== 1) throw new Error('Only PCM WAV audio is supported');
+    return { format, data };
+}
+
+function encodeWav({ channels, sampleRate, bitsPerSample }, data) {
+    const blockAlign = channels * bitsPerSample / 8;
+    const header = Buffer.alloc(44);
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(36 + data.length, 4);
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(1, 20);
+    header.writeUInt16LE(channels, 22);
+    header.writeUInt32LE(sampleRate, 24);
+    header.writeUInt32LE(sampleRate * blockAlign, 28);
+    header.writeUInt16LE(blockAlign, 32);
+    header.writeUInt16LE(bitsPerSample, 34);
+    header.write('data', 36, 'ascii');
+    header.writeUInt32LE(data.length, 40);
+    return Buffer.concat([header, data]);
+}
+
+// Joins WAV clips with `gapMs` of silence between them. All clips must share
+// one format, which holds for a single engine (voices of one engine may still
+// differ in sample rate, hence the check).
+function joinWav(clips, gapMs = 0) {
+    const parsed = clips.map(parseWav);
+    const { format } = parsed[0];
+    for (const clip of parsed) {
+        if (clip.format.channels !== format.channels || clip.format.sampleRate !== format.sampleRate
+            || clip.format.bitsPerSample !== format.bitsPerSample) {
+            throw new Error('TTS voices produce different audio formats; choose voices with the same sample rate');
+        }
+    }
+    const blockAlign = format.channels * format.bitsPerSample / 8;
+    const gap = Buffer.alloc(Math.round(format.sampleRate * gapMs / 1000) * blockAlign);
+    const parts = parsed.flatMap((clip, i) => (i === 0 ? [clip.data] : [gap, clip.data]));
+    return encodeWav(format, Buffer.concat(parts));
+}
+
+module.exports = { parseWav, encodeWav, joinWav };
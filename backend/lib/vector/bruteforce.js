@@ -0,0 +1,27 @@
+// Exact cosine search over every embedding. Norms are computed once at build
+// time instead of on every query.
+function createBruteForceIndex(embeddings) {
+    const norms = embeddings.map(emb => Math.sqrt(emb.reduce((sum, val) => sum + val * val, 0)));
+
+    return {
+        type: 'bruteforce',
+        size: embeddings.length,
+        search: (queryVector, k = 3) => {
+            const queryNorm = Math.sqrt(queryVector.reduce((sum, val) => sum + val * val, 0));
+            const scored = embeddings.map((emb, i) => {
+                const dot = emb.reduce((sum, val, j) => sum + val * queryVector[j], 0);
+                return { score: dot / (norms[i] * queryNorm || 1), index: i };
+            });
+            const top = scored.sort((a, b) => b.score - a.score).slice(0, k);
+            return {
+                indices: top.map(s => s.index),
+                scores: top.map(s => s.score),
+                distances: top.map(s => 1 - s.score),
+            };
+        },
+        // Nothing worth persisting: the index is rebuilt from the stored vectors.
+        toBuffer: () => null,
+    };
+}
+
+module.exports = { createBruteForceIndex };
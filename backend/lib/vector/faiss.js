@@ -0,0 +1,65 @@
+let faiss;
+try {
+    faiss = require('faiss-node');
+} catch (err) {
+    faiss = null;
+    console.warn('faiss-node is unavailable, falling back to brute-force search:', err.message.split('\n')[0]);
+}
+
+// Embeddings are normalised, so inner product is cosine similarity.
+function descriptorFor(type, count, { hnswM = 32, ivfLists = 100 } = {}) {
+    switch (type) {
+        case 'flat':
+            return 'Flat';
+        case 'hnsw':
+            return `HNSW${hnswM},Flat`;
+        case 'ivf': {
+            // IVF needs a few dozen training points per list; small notebooks get fewer lists.
+            const lists = Math.min(ivfLists, Math.floor(count / 39));
+            return lists >= 1 ? `IVF${lists},Flat` : 'Flat';
+        }
+        default:
+            throw new Error(`Unknown FAISS index type "${type}"`);
+    }
+}
+
+function wrap(index, type) {
+    return {
+        type: `faiss-${type}`,
+        size: index.ntotal(),
+        search: (queryVector, k = 3) => {
+            const total = index.ntotal();
+            if (total === 0) return { indices: [], scores: [], distances: [] };
+
+            const { labels, distances } = index.search(queryVector, Math.min(k, total));
+            const hits = labels
+                .map((label, i) => ({ index: label, score: distances[i] }))
+                .filter(hit => hit.index >= 0);
+            return {
+                indices: hits.map(h => h.index),
+                scores: hits.map(h => h.score),
+                distances: hits.map(h => 1 - h.score),
+            };
+        },
+        toBuffer: () => index.toBuffer(),
+    };
+}
+
+function createFaissIndex(embeddings, type = 'flat', options) {
+    const dims = embeddings[0].length;
+    const index = faiss.Index.fromFactory(
+        dims,
+        descriptorFor(type, embeddings.length, options),
+        faiss.MetricType.METRIC_INNER_PRODUCT
+    );
+    const flat = embeddings.flat();
+    if (!index.isTrained()) index.train(flat);
+    index.add(flat);
+    return wrap(index, type);
+}
+
+function loadFaissIndex(buffer, type = 'flat') {
+    return wrap(faiss.Index.fromBuffer(buffer), type);
+}
+
+module.exports = { createFaissIndex, loadFaissIndex, isFaissAvailable: () => faiss !== null };
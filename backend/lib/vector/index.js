@@ -0,0 +1,42 @@
+const { createBruteForceIndex } = require('./bruteforce');
+const { createFaissIndex, loadFaissIndex, isFaissAvailable } = require('./faiss');
+
+// VECTOR_INDEX chooses the search backend: "faiss" (default when faiss-node is
+// installed) or "bruteforce". FAISS_INDEX_TYPE picks flat, hnsw or ivf.
+function getVectorIndexConfig(env = process.env) {
+    const backend = env.VECTOR_INDEX || (isFaissAvailable() ? 'faiss' : 'bruteforce');
+    if (backend === 'faiss' && !isFaissAvailable()) {
+        throw new Error('VECTOR_INDEX=faiss but faiss-node could not be loaded');
+    }
+    if (!['faiss', 'bruteforce'].includes(backend)) {
+        throw new Error(`Unknown VECTOR_INDEX "${backend}"`);
+    }
+    return {
+        backend,
+        type: env.FAISS_INDEX_TYPE || 'flat',
+        hnswM: parseInt(env.FAISS_HNSW_M, 10) || 32,
+        ivfLists: parseInt(env.FAISS_IVF_LISTS, 10) || 100,
+    };
+}
+
+function createVectorIndex(embeddings, config = getVectorIndexConfig()) {
+    if (config.backend === 'bruteforce' || embeddings.length === 0) {
+        return createBruteForceIndex(embeddings);
+    }
+    return createFaissIndex(embeddings, config.type, config);
+}
+
+// Restores a persisted index when it was built with the current settings and
+// still matches the stored vectors; otherwise the caller should rebuild.
+function loadVectorIndex(buffer, saved, config = getVectorIndexConfig()) {
+    if (!buffer || !saved || config.backend !== 'faiss' || saved.type !== `faiss-${config.type}`) return null;
+    try {
+        const index = loadFaissIndex(buffer, config.type);
+        return index.size === saved.size ? index : null;
+    } catch (err) {
+        console.warn('Discarding unreadable vector index:', err.message);
+        return null;
+    }
+}
+
+module.exports = { createVectorIndex, loadVectorIndex, getVectorIndexConfig };
@@ -0,0 +1,34 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createBM25Index, tokenize } = require('../lib/bm25');
+
+test('keeps identifiers whole and also indexes their parts', () => {
+    assert.deepEqual(tokenize('See RFC-7231, section 4.2'), ['see', 'rfc-7231', 'rfc', '7231', 'section', '4.2', '4', '2']);
+});
+
+test('ranks documents by how well they match the query', () => {
+    const index = createBM25Index([
+        'the cat sat on the mat',
+        'dogs and cats are pets',
+        'a cat, another cat and a third cat',
+    ]);
+    const { indices, scores } = index.search('cat', 3);
+    assert.deepEqual(indices, [2, 0]);
+    assert.ok(scores[0] > scores[1]);
+});
+
+test('rarer terms weigh more than common ones', () => {
+    const index = createBM25Index(['alpha common', 'beta common', 'gamma common']);
+    assert.deepEqual(index.search('common beta', 3).indices[0], 1);
+});
+
+test('returns nothing when no query term is indexed', () => {
+    const index = createBM25Index(['some text']);
+    assert.deepEqual(index.search('absent', 3), { indices: [], scores: [] });
+    assert.deepEqual(createBM25Index([]).search('anything'), { indices: [], scores: [] });
+});
+
+test('limits results to k', () => {
+    const index = createBM25Index(['x one', 'x two', 'x three']);
+    assert.equal(index.search('x', 2).indices.length, 2);
+});
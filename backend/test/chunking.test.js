@@ -0,0 +1,74 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { chunkPages, chunkText, joinPages, isChunkingStrategy } = require('../lib/chunking');
+
+const options = { chunkTokens: 20, overlapTokens: 0 };
+
+test('joins pages and records where each one starts and ends', () => {
+    const { text, offsets } = joinPages([{ page: 1, text: 'first' }, { page: 2, text: 'second' }]);
+    assert.equal(text, 'first\n\nsecond');
+    assert.deepEqual(offsets, [{ page: 1, start: 0, end: 5 }, { page: 2, start: 7, end: 13 }]);
+});
+
+test('fixed windows overlap and cover the whole text', () => {
+    const text = 'x'.repeat(1000);
+    const chunks = chunkText(text, 512, 128);
+    assert.deepEqual(chunks.map(c => [c.start, c.end]), [[0, 512], [384, 896], [768, 1000]]);
+});
+
+test('chunk metadata points back at the text of the pages it came from', () => {
+    const pages = [
+        { page: 1, text: 'The first page has one paragraph about apples.' },
+        { page: 2, text: 'The second page talks about pears.\n\nIt has a second paragraph too.' },
+    ];
+    const chunks = chunkPages(pages, { ...options, strategy: 'paragraph' });
+    assert.ok(chunks.length >= 2);
+    for (const { text, metadata } of chunks) {
+        const page = pages[metadata.startPage - 1];
+        if (metadata.startPage === metadata.endPage) {
+            assert.equal(page.text.slice(metadata.pageStart, metadata.pageEnd), text);
+        } else {
+            assert.ok(text.startsWith(page.text.slice(metadata.pageStart)));
+        }
+    }
+    assert.equal(chunks[0].metadata.startPage, 1);
+    assert.equal(chunks[chunks.length - 1].metadata.endPage, 2);
+});
+
+test('paragraph chunks end at paragraph boundaries', () => {
+    const pages = [{ page: 1, text: 'One two three four five six seven eight.\n\nNine ten eleven twelve thirteen fourteen.' }];
+    const chunks = chunkPages(pages, { chunkTokens: 12, overlapTokens: 0, strategy: 'paragraph' });
+    assert.deepEqual(chunks.map(c => c.text), [
+        'One two three four five six seven eight.',
+        'Nine ten eleven twelve thirteen fourteen.',
+    ]);
+});
+
+test('sentence chunks keep sentences whole', () => {
+    const pages = [{ page: 1, text: 'Dr. Smith arrived early. He left at noon. Then it rained all afternoon.' }];
+    const chunks = chunkPages(pages, { chunkTokens: 8, overlapTokens: 0, strategy: 'sentence' });
+    assert.deepEqual(chunks.map(c => c.text), [
+        'Dr. Smith arrived early.',
+        'He left at noon.',
+        'Then it rained all afternoon.',
+    ]);
+});
+
+test('heading chunks do not cross a heading and record the heading path', () => {
+    const pages = [{
+        page: 1,
+        text: '1. Introduction\n\nShort intro text.\n\n2. Methods\n\nHow it was done.',
+    }];
+    const chunks = chunkPages(pages, { chunkTokens: 200, overlapTokens: 0, strategy: 'heading' });
+    assert.equal(chunks.length, 2);
+    assert.ok(chunks[0].text.startsWith('1. Introduction'));
+    assert.ok(!chunks[0].text.includes('Methods'));
+    assert.ok(chunks[1].text.startsWith('2. Methods'));
+    assert.deepEqual(chunks[1].metadata.sectionPath, ['2. Methods']);
+});
+
+test('knows which strategies exist', () => {
+    assert.ok(isChunkingStrategy('heading'));
+    assert.ok(isChunkingStrategy('fixed'));
+    assert.ok(!isChunkingStrategy('toString'));
+});
@@ -0,0 +1,28 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { chunkPages, joinPages } = require('../lib/chunking');
+const { buildCitations, selectSnippet } = require('../lib/citations');
+
+test('picks the sentence that best matches the query', () => {
+    const text = 'Cats purr when content. Dogs bark at strangers. Birds sing at dawn.';
+    const { start, end } = selectSnippet(text, 'why do dogs bark');
+    assert.ok(text.slice(start, end).includes('Dogs bark at strangers.'));
+    assert.ok(end - start <= 200);
+});
+
+test('citation offsets locate the snippet within its page', () => {
+    const pages = [
+        { page: 1, text: 'Opening remarks about nothing in particular, '.repeat(5).trim() },
+        { page: 2, text: 'The treaty was signed in 1848. Trade grew quickly afterwards.' },
+    ];
+    const chunks = chunkPages(pages, { strategy: 'fixed' }).map((chunk, i) => ({ id: `s:${i}`, ...chunk }));
+    const source = { id: 's', name: 'history.pdf', pageOffsets: joinPages(pages).offsets };
+    const [citation] = buildCitations([{ chunk: chunks[0], source, score: 1 }], 'when was the treaty signed');
+
+    assert.equal(citation.number, 1);
+    assert.equal(citation.page, 2);
+    assert.equal(citation.end_page, 2);
+    const cited = pages[1].text.slice(citation.page_start, citation.page_end);
+    assert.equal(cited, citation.snippet);
+    assert.ok(cited.includes('The treaty was signed in 1848.'));
+});
@@ -0,0 +1,61 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { sanitizeNoteHtml, sanitizeCitations, noteToHtml } = require('../lib/notes');
+
+test('keeps the allowed formatting tags', () => {
+    const html = '<h2>Title</h2><p>Some <strong>bold</strong> and <em>italic</em> text<br/>next line</p><ul><li>one</li></ul>';
+    assert.equal(sanitizeNoteHtml(html), '<h2>Title</h2><p>Some <strong>bold</strong> and <em>italic</em> text<br>next line</p><ul><li>one</li></ul>');
+});
+
+test('drops scripts, styles and frames with their contents', () => {
+    const html = '<p>safe</p><script>alert(1)</script><style>p { color: red }</style><iframe src="https://example.com"></iframe>';
+    assert.equal(sanitizeNoteHtml(html), '<p>safe</p>');
+});
+
+test('strips attributes, including event handlers', () => {
+    assert.equal(sanitizeNoteHtml('<p onclick="alert(1)" style="color:red">text</p><img src=x onerror="alert(1)">'), '<p>text</p>');
+});
+
+test('keeps the text of tags that are not allowed', () => {
+    assert.equal(sanitizeNoteHtml('<p><span class="x">inner</span> <font>text</font></p>'), '<p>inner text</p>');
+});
+
+test('only keeps http, https and mailto links', () => {
+    assert.equal(
+        sanitizeNoteHtml('<a href="https://example.com/?a=1&b=2">ok</a>'),
+        '<a href="https://example.com/?a=1&amp;b=2" rel="noopener noreferrer" target="_blank">ok</a>',
+    );
+    assert.equal(sanitizeNoteHtml('<a href="javascript:alert(1)">bad</a>'), 'bad');
+    assert.equal(sanitizeNoteHtml('<a href=" JavaScript:alert(1)">bad</a>'), 'bad');
+    assert.equal(sanitizeNoteHtml('<a href="data:text/html,<script>alert(1)</script>">bad</a>'), 'bad');
+});
+
+test('escapes text so it cannot become markup', () => {
+    assert.equal(sanitizeNoteHtml('<p>a &lt;script&gt; tag</p>'), '<p>a &lt;script&gt; tag</p>');
+    assert.equal(sanitizeNoteHtml('1 < 2 > 0'), '1 &lt; 2 &gt; 0');
+});
+
+test('returns an empty note for anything but a string', () => {
+    assert.equal(sanitizeNoteHtml(undefined), '');
+    assert.equal(sanitizeNoteHtml({ html: '<p>x</p>' }), '');
+});
+
+test('keeps only known citation fields and drops citations without a page', () => {
+    const citations = sanitizeCitations([
+        { number: 1, source_id: 's', page: 2, snippet: 'text', extra: '<script>' },
+        { number: 2, source_id: 's' },
+        null,
+    ]);
+    assert.deepEqual(citations, [{ number: 1, source_id: 's', page: 2, snippet: 'text' }]);
+    assert.deepEqual(sanitizeCitations('nope'), []);
+});
+
+test('writes the note out with escaped titles and a reference list', () => {
+    const html = noteToHtml({
+        title: 'A <b>title</b>',
+        content: '<p>Body</p>',
+        citations: [{ number: 1, source_name: 'paper.pdf', page: 3 }],
+    });
+    assert.match(html, /<title>A &lt;b&gt;title&lt;\/b&gt;<\/title>/);
+    assert.match(html, /<p>Body<\/p><h2>References<\/h2><ol><li>\[1\] paper\.pdf, page 3<\/li><\/ol>/);
+});
@@ -0,0 +1,61 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+
+// Stand-ins for the model-backed modules, so retrieval runs without downloading models.
+function mockModule(request, exports) {
+    const id = require.resolve(request);
+    require.cache[id] = { id, filename: id, loaded: true, exports };
+}
+
+let rerankScores;
+mockModule('../lib/embeddings', { embed: async () => [1, 0, 0] });
+mockModule('../lib/reranker', { rerankScores: (...args) => rerankScores(...args) });
+
+const { retrieve, fuseRankings } = require('../lib/retrieval');
+
+const notebook = {
+    chunks: ['alpha', 'beta', 'gamma'].map(text => ({ text })),
+    index: { search: () => ({ indices: [0, 1, 2] }) },
+    lexicalIndex: { search: () => ({ indices: [2, 0] }) },
+};
+
+test('reranks the fused candidates with the cross-encoder', async () => {
+    rerankScores = async (query, texts) => texts.map(text => (text === 'beta' ? 1 : 0));
+    const results = await retrieve(notebook, 'query', { k: 2, rerank: true });
+    assert.equal(results[0].index, 1);
+    assert.equal(results[0].rerankScore, 1);
+});
+
+test('falls back to the fused ranking when reranking fails', async () => {
+    rerankScores = async () => {
+        throw new Error('model failed to load');
+    };
+    const fused = await retrieve(notebook, 'query', { k: 2, rerank: false });
+    const results = await retrieve(notebook, 'query', { k: 2, rerank: true });
+    assert.deepEqual(results, fused);
+    assert.deepEqual(results.map(r => r.index), [0, 2]);
+});
+
+test('fuses ranked lists with weighted reciprocal rank', () => {
+    const fused = fuseRankings([
+        { name: 'vector', indices: [0, 1], weight: 1 },
+        { name: 'keyword', indices: [1, 2], weight: 1 },
+    ], 60);
+    assert.deepEqual(fused.map(r => r.index), [1, 0, 2]);
+    assert.deepEqual(fused[0].ranks, { vector: 2, keyword: 1 });
+    assert.equal(fused[0].score, 1 / 62 + 1 / 61);
+});
+
+test('a heavier list wins ties and a zero weight is ignored', () => {
+    const weighted = fuseRankings([
+        { name: 'vector', indices: [0], weight: 1 },
+        { name: 'keyword', indices: [1], weight: 2 },
+    ], 60);
+    assert.deepEqual(weighted.map(r => r.index), [1, 0]);
+
+    const vectorOnly = fuseRankings([
+        { name: 'vector', indices: [0], weight: 1 },
+        { name: 'keyword', indices: [1], weight: 0 },
+    ], 60);
+    assert.deepEqual(vectorOnly.map(r => r.index), [0]);
+});
@@ -0,0 +1,388 @@
+"use client";
+
+import React from "react";
+import { ChatInterface } from "@/components/ChatInterface";
+import { StudyArtifactsPanel } from "@/components/StudyArtifactsPanel";
+import { PracticePanel } from "@/components/PracticePanel";
+import { AudioOverviewPanel } from "@/components/AudioOverviewPanel";
+import { NotesPanel } from "@/components/NotesPanel";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PDFUpload } from "@/components/PDFUpload";
+import { PDFViewer, type PDFView } from "@/components/PDFViewer";
+import { TextSourceViewer } from "@/components/TextSourceViewer";
+import { ChunkingStrategySelect } from "@/components/ChunkingStrategySelect";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, File, FileText, X } from "lucide-react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { apiUrl, describeOcr, type ChunkingStrategy, type Citation, type NotebookInfo, type SourceInfo } from "@/lib/api";
+import { citationLocation, parseViewerLocation, sliceCitedRange, viewerLocationQuery, type CitedRange, type ViewerLocation } from "@/lib/links";
+
+interface NotebookSource {
+  info: SourceInfo;
+  /** The original file; null when it could not be loaded (the extracted text is shown instead). */
+  file: File | null;
+}
+
+// Text sources are shown from their extracted text, so only PDFs are downloaded again.
+async function fetchSourceFile(notebookId: string, source: SourceInfo) {
+  if (source.kind === "text") return null;
+  try {
+    const response = await fetch(apiUrl(`/notebooks/${notebookId}/sources/${source.id}/file`));
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    // `File` here is the lucide icon, so the DOM constructor is reached through globalThis.
+    return new globalThis.File([blob], source.name, { type: source.mime_type || blob.type });
+  } catch {
+    return null;
+  }
+}
+
+// The text a linked range covers, read from the source's extracted pages.
+async function fetchCitedText(notebookId: string, sourceId: string, page: number, range: CitedRange) {
+  try {
+    const response = await fetch(apiUrl(`/notebooks/${notebookId}/sources/${sourceId}/content`));
+    if (!response.ok) return undefined;
+    const { units } = (await response.json()) as { units: Array<{ page: number; text: string }> };
+    const unit = units.find(u => u.page === page);
+    return unit ? sliceCitedRange(unit.text, range) || undefined : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// One notebook: its sources, the viewer and the chat/studio panels. The id comes
+// from the route, so a reload or a shared link opens the same notebook.
+export default function NotebookPage() {
+  const { id: notebookId } = useParams<{ id: string }>();
+  const [name, setName] = useState("");
+  const [sources, setSources] = useState<NotebookSource[]>([]);
+  const [activeSourceId, setActiveSourceId] = useState<string | null>(null);
+  const [highlightPage, setHighlightPage] = useState<number | undefined>();
+  const [highlightText, setHighlightText] = useState<string | undefined>();
+  const [highlightRange, setHighlightRange] = useState<CitedRange | undefined>();
+  // The PDF page and zoom as last reported by the viewer, and where a deep link asked to open.
+  const [view, setView] = useState<PDFView | null>(null);
+  const [initialView, setInitialView] = useState<(Partial<PDFView> & { sourceId: string }) | null>(null);
+  const [chunkingStrategy, setChunkingStrategy] = useState<ChunkingStrategy | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const toast = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setLoadError(null);
+    (async () => {
+      try {
+        // Opening also records the visit for the notebooks list.
+        const response = await fetch(apiUrl(`/notebooks/${notebookId}/open`), { method: "POST" });
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? "This notebook no longer exists." : "Could not load the notebook.");
+        }
+        const notebook = (await response.json()) as NotebookInfo;
+        const loaded = await Promise.all(notebook.sources.map(async info => ({
+          info,
+          file: await fetchSourceFile(notebook.id, info),
+        })));
+        if (cancelled) return;
+        setName(notebook.name);
+        setChunkingStrategy(notebook.chunking_strategy);
+        setSources(loaded);
+
+        // Restore the viewer state carried by a deep link.
+        const location = parseViewerLocation(window.location.search);
+        const target = loaded.find(s => s.info.id === location.sourceId) ?? loaded[0];
+        setActiveSourceId(target?.info.id ?? null);
+        if (target && target.info.id === location.sourceId) {
+          setInitialView({ sourceId: target.info.id, page: location.page, scale: location.zoom && location.zoom / 100 });
+          if (location.page && location.range) {
+            const text = await fetchCitedText(notebook.id, target.info.id, location.page, location.range);
+            if (cancelled) return;
+            setHighlightPage(location.page);
+            setHighlightText(text);
+            setHighlightRange(text ? location.range : undefined);
+          } else if (location.page && target.info.kind === "text") {
+            setHighlightPage(location.page);
+          }
+        }
+      } catch (error) {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : "Could not load the notebook.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [notebookId]);
+
+  const activeSource = sources.find(s => s.info.id === activeSourceId) ?? sources[0];
+
+  // Keeps the URL pointing at what is on screen, so it can be copied and shared.
+  useEffect(() => {
+    if (loading || !activeSource) return;
+    const page = view?.page ?? highlightPage;
+    const location: ViewerLocation = {
+      sourceId: activeSource.info.id,
+      page,
+      zoom: view ? view.scale * 100 : undefined,
+      range: highlightRange && page === highlightPage ? highlightRange : undefined,
+    };
+    window.history.replaceState(null, "", `${window.location.pathname}${viewerLocationQuery(location)}`);
+  }, [loading, activeSource, view, highlightPage, highlightRange]);
+
+  const clearHighlight = () => {
+    setHighlightPage(undefined);
+    setHighlightText(undefined);
+    setHighlightRange(undefined);
+  };
+
+  const showSource = (sourceId: string) => {
+    if (sourceId === activeSource?.info.id) return;
+    setActiveSourceId(sourceId);
+    setView(null);
+    setInitialView(null);
+  };
+
+  const handleFileSelect = (file: File, source: SourceInfo) => {
+    setSources(prev => [...prev, { info: source, file }]);
+    setActiveSourceId(prev => prev ?? source.id);
+  };
+
+  // Saved on the notebook; applies to sources added from then on.
+  const handleChunkingStrategyChange = async (strategy: ChunkingStrategy) => {
+    const previous = chunkingStrategy;
+    setChunkingStrategy(strategy);
+    try {
+      const response = await fetch(apiUrl(`/notebooks/${notebookId}`), {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chunking_strategy: strategy }),
+      });
+      if (!response.ok) throw new Error("Update failed");
+    } catch {
+      setChunkingStrategy(previous);
+      toast.error("Could not change chunking", { description: "Please try again." });
+    }
+  };
+
+  const handleRemoveSource = async (sourceId: string) => {
+    try {
+      const response = await fetch(apiUrl(`/notebooks/${notebookId}/sources/${sourceId}`), { method: "DELETE" });
+      if (!response.ok) throw new Error("Remove failed");
+      setSources(prev => prev.filter(s => s.info.id !== sourceId));
+      if (activeSourceId === sourceId) {
+        setActiveSourceId(null);
+        setView(null);
+        clearHighlight();
+      }
+    } catch {
+      toast.error("Could not remove source", { description: "Please try again." });
+    }
+  };
+
+  const handleCitationClick = (citation: Citation) => {
+    if (citation.sourceId) showSource(citation.sourceId);
+    setHighlightPage(citation.page);
+    setHighlightText(citation.text);
+    setHighlightRange(citationLocation(citation).range);
+  };
+
+  const handleSelectSource = (sourceId: string) => {
+    showSource(sourceId);
+    clearHighlight();
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6 text-sm text-muted-foreground animate-pulse">
+        Loading notebook...
+      </div>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-3 p-6">
+        <p className="text-sm text-muted-foreground">{loadError}</p>
+        <Button variant="outline" asChild>
+          <Link href="/">Back to notebooks</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  if (sources.length === 0) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="w-full max-w-md space-y-3">
+          <div className="flex items-center gap-2">
+            <Button size="icon" variant="ghost" asChild title="All notebooks">
+              <Link href="/">
+                <ArrowLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <h1 className="truncate text-lg font-semibold text-foreground">{name}</h1>
+          </div>
+          <PDFUpload
+            onFileSelect={handleFileSelect}
+            notebookId={notebookId}
+            chunkingStrategy={chunkingStrategy}
+          />
+          <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+            <span>Chunking</span>
+            <ChunkingStrategySelect value={chunkingStrategy} onChange={handleChunkingStrategyChange} className="w-44" />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card/50 backdrop-blur-sm shadow-soft">
+        <div className="px-6 py-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-gradient-primary">
+                <FileText className="h-5 w-5 text-primary-foreground" />
+              </div>
+              <div className="min-w-0">
+                <h1 className="truncate text-lg font-bold gradient-text">{name}</h1>
+              </div>
+            </div>
+
+            <Button variant="outline" asChild className="gap-1">
+              <Link href="/">
+                <ArrowLeft className="h-4 w-4" />
+                All notebooks
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Layout */}
+      <div className="flex h-[calc(100vh-73px)]">
+        {/* Sources */}
+        <aside className="w-64 p-4 border-r flex flex-col gap-3">
+          <p className="text-sm font-semibold text-foreground">Sources ({sources.length})</p>
+          <div className="flex-1 overflow-auto space-y-1">
+            {sources.map(({ info }) => (
+              <div
+                key={info.id}
+                className={`group flex items-center gap-2 rounded-md px-2 py-1.5 text-sm cursor-pointer hover:bg-muted ${info.id === activeSource?.info.id ? "bg-muted font-medium" : ""}`}
+                onClick={() => handleSelectSource(info.id)}
+              >
+                {info.kind === "pdf"
+                  ? <FileText className="h-4 w-4 flex-shrink-0 text-primary" />
+                  : <File className="h-4 w-4 flex-shrink-0 text-primary" />}
+                <div className="flex-1 min-w-0">
+                  <p className="truncate" title={info.name}>{info.name}</p>
+                  {info.ocr_pages.length > 0 && (
+                    <p
+                      className="truncate text-xs font-normal text-muted-foreground"
+                      title={info.ocr_pages.map(p => `Page ${p.page}: ${p.confidence}%`).join("\n")}
+                    >
+                      {describeOcr(info.ocr_pages)}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleRemoveSource(info.id);
+                  }}
+                  className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                  title="Remove source"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <ChunkingStrategySelect value={chunkingStrategy} onChange={handleChunkingStrategyChange} className="w-full" />
+          <PDFUpload
+            onFileSelect={handleFileSelect}
+            notebookId={notebookId}
+            compact
+          />
+        </aside>
+
+        {/* Source Viewer */}
+        <div className="flex-1 p-4">
+          {activeSource && (activeSource.info.kind === "text" || !activeSource.file) && (
+            <TextSourceViewer
+              key={activeSource.info.id}
+              notebookId={notebookId}
+              source={activeSource.info}
+              highlightPage={highlightPage}
+              highlightText={highlightText}
+            />
+          )}
+          {activeSource && activeSource.info.kind !== "text" && activeSource.file && (
+            <PDFViewer
+              key={activeSource.info.id}
+              file={activeSource.file}
+              highlightPage={highlightPage}
+              highlightText={highlightText}
+              initialView={initialView?.sourceId === activeSource.info.id ? initialView : undefined}
+              onViewChange={setView}
+            />
+          )}
+        </div>
+
+        {/* Chat and study artifacts */}
+        <Tabs defaultValue="chat" className="w-96 p-4 border-l">
+          <TabsList className="w-full">
+            <TabsTrigger value="chat">Chat</TabsTrigger>
+            <TabsTrigger value="notes">Notes</TabsTrigger>
+            <TabsTrigger value="studio">Studio</TabsTrigger>
+            <TabsTrigger value="practice">Practice</TabsTrigger>
+            <TabsTrigger value="audio">Audio</TabsTrigger>
+          </TabsList>
+          {/* forceMount keeps the conversation when switching tabs */}
+          <TabsContent value="chat" forceMount className="min-h-0 data-[state=inactive]:hidden">
+            <ChatInterface
+              onCitationClick={handleCitationClick}
+              sources={sources.map(s => s.info)}
+              sessionId={notebookId}
+            />
+          </TabsContent>
+          <TabsContent value="notes" className="min-h-0">
+            <NotesPanel
+              notebookId={notebookId}
+              onCitationClick={handleCitationClick}
+              onSourceAdded={handleFileSelect}
+            />
+          </TabsContent>
+          <TabsContent value="studio" className="min-h-0">
+            <StudyArtifactsPanel
+              notebookId={notebookId}
+              sources={sources.map(s => s.info)}
+              onCitationClick={handleCitationClick}
+            />
+          </TabsContent>
+          <TabsContent value="practice" className="min-h-0">
+            <PracticePanel
+              notebookId={notebookId}
+              sources={sources.map(s => s.info)}
+              onCitationClick={handleCitationClick}
+            />
+          </TabsContent>
+          <TabsContent value="audio" className="min-h-0">
+            <AudioOverviewPanel
+              notebookId={notebookId}
+              sources={sources.map(s => s.info)}
+              onCitationClick={handleCitationClick}
+            />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+};
@@ -1,92 +1,197 @@
 "use client";
 
-import React from "react";
-import { ChatInterface } from "@/components/ChatInterface";
-import { PDFUpload } from "@/components/PDFUpload";
-import { PDFViewer } from "@/components/PDFViewer";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { FileText, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { FileText } from "lucide-react";
-import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiUrl, type NotebookInfo, type NotebookSummary } from "@/lib/api";
 
-export default function Home() {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [sessionId, setSessionId] = useState<string | null>(null);
-  const [highlightPage, setHighlightPage] = useState<number | undefined>();
+function describeOpened(notebook: NotebookSummary) {
+  return notebook.last_opened_at
+    ? `Opened ${new Date(notebook.last_opened_at).toLocaleString()}`
+    : `Created ${new Date(notebook.created_at).toLocaleString()}`;
+}
 
-  const handleFileSelect = (file: File, sessionId: string) => {
-    setSelectedFile(file);
-    setSessionId(sessionId);
-  };
+// Every notebook, most recently opened first. Each one opens at /notebooks/[id].
+export default function NotebooksPage() {
+  const router = useRouter();
+  const [notebooks, setNotebooks] = useState<NotebookSummary[] | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const toast = useToast();
+
+  useEffect(() => {
+    // Links from before notebooks had their own pages carried the id as ?session=.
+    const legacyId = new URLSearchParams(window.location.search).get("session");
+    if (legacyId) {
+      router.replace(`/notebooks/${legacyId}`);
+      return;
+    }
+    fetch(apiUrl("/notebooks"))
+      .then(response => {
+        if (!response.ok) throw new Error(`Request failed: ${response.status}`);
+        return response.json();
+      })
+      .then((data: { notebooks: NotebookSummary[] }) => setNotebooks(data.notebooks))
+      .catch(() => {
+        setNotebooks([]);
+        toast.error("Could not load notebooks", { description: "Is the backend running?" });
+      });
+  }, [router, toast]);
 
-  const handleClearFile = () => {
-    setSelectedFile(null);
-    setSessionId(null);
-    setHighlightPage(undefined);
+  const create = async () => {
+    setCreating(true);
+    try {
+      const response = await fetch(apiUrl("/notebooks"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Untitled notebook" }),
+      });
+      if (!response.ok) throw new Error(`Create failed: ${response.status}`);
+      const notebook = (await response.json()) as NotebookInfo;
+      router.push(`/notebooks/${notebook.id}`);
+    } catch {
+      setCreating(false);
+      toast.error("Could not create notebook", { description: "Please try again." });
+    }
   };
 
-  const handleCitationClick = (page: number) => {
-    setHighlightPage(page);
+  const rename = async () => {
+    if (!renaming) return;
+    const { id, name } = renaming;
+    setRenaming(null);
+    const current = notebooks?.find(n => n.id === id);
+    if (!name.trim() || name.trim() === current?.name) return;
+    try {
+      const response = await fetch(apiUrl(`/notebooks/${id}`), {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim() }),
+      });
+      if (!response.ok) throw new Error(`Rename failed: ${response.status}`);
+      const updated = (await response.json()) as NotebookInfo;
+      setNotebooks(list => list?.map(n => (n.id === id ? { ...n, name: updated.name } : n)) ?? list);
+    } catch {
+      toast.error("Could not rename notebook", { description: "Please try again." });
+    }
   };
 
-  if (!selectedFile) {
-    return (
-      <div className="min-h-screen bg-background flex items-center justify-center p-6">
-        <div className="w-full max-w-md">
-          <PDFUpload
-            onFileSelect={handleFileSelect}
-            selectedFile={selectedFile}
-            onClearFile={handleClearFile}
-          />
-        </div>
-      </div>
-    );
-  }
+  const remove = async (id: string) => {
+    try {
+      const response = await fetch(apiUrl(`/notebooks/${id}`), { method: "DELETE" });
+      if (!response.ok) throw new Error(`Delete failed: ${response.status}`);
+      setNotebooks(list => list?.filter(n => n.id !== id) ?? list);
+    } catch {
+      toast.error("Could not delete notebook", { description: "Please try again." });
+    }
+  };
 
   return (
     <div className="min-h-screen bg-background">
-      {/* Header */}
       <header className="border-b bg-card/50 backdrop-blur-sm shadow-soft">
-        <div className="px-6 py-3">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <div className="p-2 rounded-lg bg-gradient-primary">
-                <FileText className="h-5 w-5 text-primary-foreground" />
-              </div>
-              <div>
-                <h1 className="text-lg font-bold gradient-text">PDF Chat Assistant</h1>
-              </div>
+        <div className="px-6 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-gradient-primary">
+              <FileText className="h-5 w-5 text-primary-foreground" />
             </div>
-
-            <Button
-              variant="outline"
-              onClick={handleClearFile}
-              className="hover:bg-destructive hover:text-destructive-foreground"
-            >
-              New Document
-            </Button>
+            <h1 className="text-lg font-bold gradient-text">PDF Chat Assistant</h1>
           </div>
+          <Button onClick={create} disabled={creating} className="gap-1">
+            {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            New notebook
+          </Button>
         </div>
       </header>
 
-      {/* Main Layout */}
-      <div className="flex h-[calc(100vh-73px)]">
-        {/* PDF Viewer */}
-        <div className="flex-1 p-4">
-          <PDFViewer
-            file={selectedFile}
-            highlightPage={highlightPage}
-          />
-        </div>
+      <main className="mx-auto max-w-5xl p-6">
+        {notebooks === null ? (
+          <p className="text-sm text-muted-foreground animate-pulse">Loading notebooks...</p>
+        ) : notebooks.length === 0 ? (
+          <div className="flex flex-col items-center gap-3 py-24 text-center">
+            <p className="text-sm text-muted-foreground">No notebooks yet. Create one to upload your first source.</p>
+            <Button onClick={create} disabled={creating} className="gap-1">
+              <Plus className="h-4 w-4" />
+              New notebook
+            </Button>
+          </div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {notebooks.map(notebook => (
+              <Card key={notebook.id} className="group relative gap-2 bg-gradient-surface p-4 shadow-medium transition-colors hover:bg-muted/50">
+                {renaming?.id === notebook.id ? (
+                  <Input
+                    autoFocus
+                    value={renaming.name}
+                    onChange={e => setRenaming({ id: notebook.id, name: e.target.value })}
+                    onBlur={rename}
+                    onKeyDown={e => {
+                      if (e.key === "Enter") rename();
+                      if (e.key === "Escape") setRenaming(null);
+                    }}
+                    className="h-8"
+                  />
+                ) : (
+                  <Link href={`/notebooks/${notebook.id}`} className="after:absolute after:inset-0">
+                    <h2 className="truncate pr-16 font-semibold text-foreground" title={notebook.name}>{notebook.name}</h2>
+                  </Link>
+                )}
+                <p className="text-sm text-muted-foreground">
+                  {notebook.source_count} source{notebook.source_count === 1 ? "" : "s"}
+                </p>
+                <p className="text-xs text-muted-foreground">{describeOpened(notebook)}</p>
 
-        {/* Chat Interface */}
-        <div className="w-96 p-4 border-l">
-          <ChatInterface
-            onCitationClick={handleCitationClick}
-            pdfFile={selectedFile}
-            sessionId={sessionId}
-          />
-        </div>
-      </div>
+                {renaming?.id !== notebook.id && (
+                  <div className="absolute right-2 top-2 z-10 flex opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      title="Rename notebook"
+                      onClick={() => setRenaming({ id: notebook.id, name: notebook.name })}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button size="icon" variant="ghost" className="h-7 w-7" title="Delete notebook">
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete this notebook?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            &ldquo;{notebook.name}&rdquo; and its sources, chat, notes and generated content will be deleted.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => remove(notebook.id)}>Delete</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )}
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
     </div>
   );
-};
+}
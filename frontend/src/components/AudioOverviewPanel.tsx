@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { BookOpen, Download, Headphones, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  apiUrl,
+  parseAudioOverview,
+  AUDIO_OVERVIEW_LENGTHS,
+  type AudioOverview,
+  type AudioOverviewLength,
+  type AudioOverviewPayload,
+  type BackendConfig,
+  type Citation,
+} from "@/lib/api";
+
+interface AudioOverviewPanelProps {
+  notebookId: string | null;
+  sources: Array<{ id: string }>;
+  onCitationClick: (citation: Citation) => void;
+}
+
+// Two hosts talking through the sources: a cited transcript, plus a player and
+// download when the backend has a TTS engine configured.
+export const AudioOverviewPanel: React.FC<AudioOverviewPanelProps> = ({ notebookId, sources, onCitationClick }) => {
+  const [overview, setOverview] = useState<AudioOverview | null>(null);
+  const [length, setLength] = useState<AudioOverviewLength>("medium");
+  const [focus, setFocus] = useState("");
+  const [tts, setTts] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const toast = useToast();
+
+  useEffect(() => {
+    fetch(apiUrl("/config"))
+      .then(response => (response.ok ? response.json() : null))
+      .then((config: BackendConfig | null) => setTts(config?.audio_overview?.tts ?? null))
+      .catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    setOverview(null);
+    if (!notebookId) return;
+    let cancelled = false;
+    fetch(apiUrl(`/notebooks/${notebookId}/audio-overview`))
+      .then(response => (response.ok ? response.json() : null))
+      .then((data: AudioOverviewPayload | null) => {
+        if (!cancelled && data) setOverview(parseAudioOverview(data));
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [notebookId]);
+
+  const generate = async () => {
+    if (!notebookId) return;
+    setGenerating(true);
+    try {
+      const response = await fetch(apiUrl(`/notebooks/${notebookId}/audio-overview`), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ length, focus: focus.trim() || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Generation failed: ${response.status}`);
+      const generated = parseAudioOverview(data);
+      setOverview(generated);
+      if (generated.audio_error) {
+        toast.error("Script written, but audio failed", { description: generated.audio_error });
+      }
+    } catch (error) {
+      toast.error("Could not create the audio overview", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const hasSources = sources.length > 0;
+
+  return (
+    <Card className="h-full flex flex-col gap-3 bg-gradient-surface shadow-medium p-4">
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <Select value={length} onValueChange={value => setLength(value as AudioOverviewLength)} disabled={generating}>
+            <SelectTrigger size="sm" className="flex-1" title="Length of the conversation">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(AUDIO_OVERVIEW_LENGTHS) as AudioOverviewLength[]).map(value => (
+                <SelectItem key={value} value={value}>{AUDIO_OVERVIEW_LENGTHS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={generate} disabled={!hasSources || generating} className="gap-1">
+            {generating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Headphones className="h-4 w-4" />}
+            {generating ? "Creating..." : "Create"}
+          </Button>
+        </div>
+        <Input
+          value={focus}
+          onChange={e => setFocus(e.target.value)}
+          placeholder="Focus on a topic (optional)"
+          disabled={generating}
+        />
+        {!tts && (
+          <p className="text-xs text-muted-foreground">No speech engine is configured, so only the script is written.</p>
+        )}
+      </div>
+
+      {overview ? (
+        <div className="flex-1 min-h-0 flex flex-col gap-3">
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-foreground">{overview.title}</h3>
+            {overview.outdated && (
+              <p className="text-xs text-muted-foreground">Sources changed since this was created.</p>
+            )}
+            {overview.audio_url && (
+              <div className="flex items-center gap-2">
+                <audio controls src={apiUrl(overview.audio_url)} className="h-8 flex-1" />
+                <Button size="icon" variant="outline" asChild title="Download audio">
+                  <a href={apiUrl(`${overview.audio_url}&download=1`)} download>
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <ScrollArea className="flex-1 min-h-0">
+            <div className="space-y-3 pr-3 text-sm leading-relaxed">
+              {overview.lines.map((line, i) => (
+                <div key={i}>
+                  <span className={`font-semibold ${line.speaker_index === 0 ? "text-primary" : "text-foreground"}`}>
+                    {line.speaker}:
+                  </span>{" "}
+                  <span>{line.text}</span>
+                  {line.citations.map((citation, j) => (
+                    <button
+                      key={j}
+                      onClick={() => onCitationClick(citation)}
+                      className="citation-marker mx-0.5 inline-flex items-center gap-0.5 align-super text-[0.65rem] font-semibold text-primary hover:underline"
+                      title={[citation.sourceName, citation.text].filter(Boolean).join("\n")}
+                    >
+                      <BookOpen className="h-2.5 w-2.5" />
+                      {citation.sectionTitle || `p. ${citation.page}`}
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {hasSources ? "No audio overview yet." : "Upload a source first."}
+        </p>
+      )}
+    </Card>
+  );
+};
@@ -1,37 +1,55 @@
 "use client";
 import { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, BookOpen } from 'lucide-react';
+import { Send, Bot, User, BookOpen, Square, NotebookPen, Check, Link2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { NotebookGuide } from '@/components/NotebookGuide';
+import { CitationText } from '@/components/CitationText';
+import {
+  apiUrl,
+  parseCitations,
+  toCitationPayload,
+  type ChatHistoryMessage,
+  type Citation,
+  type NotebookGuide as NotebookGuideData,
+} from '@/lib/api';
+import { citationLocation, notebookLink } from '@/lib/links';
+import { textToNoteHtml } from '@/lib/notes';
+import { useToast } from '@/hooks/use-toast';
+import { readEventStream } from '@/lib/sse';
 
 interface ChatMessage {
   id: string;
   type: 'user' | 'assistant';
   content: string;
-  citations?: Array<{
-    page: number;
-    text: string;
-  }>;
+  citations?: Citation[];
   timestamp: Date;
 }
 
 interface ChatInterfaceProps {
-  onCitationClick: (page: number) => void;
-  pdfFile?: File | null;
+  onCitationClick: (citation: Citation) => void;
+  sources?: Array<{ id: string; name: string }>;
   sessionId?: string | null;
 }
 
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   onCitationClick,
-  pdfFile,
+  sources = [],
   sessionId
 }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [guide, setGuide] = useState<NotebookGuideData | null>(null);
+  const [guideLoading, setGuideLoading] = useState(false);
+  const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
+  const [historySessionId, setHistorySessionId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const toast = useToast();
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -41,93 +59,206 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     scrollToBottom();
   }, [messages]);
 
+  const hasSources = sources.length > 0;
+  const greetingSource = sources[0]?.name;
+
+  // A notebook opened again (e.g. after a reload) continues its stored conversation.
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+    fetch(apiUrl(`/notebooks/${sessionId}/messages`))
+      .then(response => (response.ok ? response.json() : null))
+      .then((data: { messages: ChatHistoryMessage[] } | null) => {
+        if (cancelled || !data || data.messages.length === 0) return;
+        setMessages(data.messages.map(message => ({
+          id: `history-${message.id}`,
+          type: message.role,
+          content: message.content,
+          citations: parseCitations(message.citations),
+          timestamp: new Date(message.timestamp),
+        })));
+      })
+      .catch(() => {})
+      .finally(() => {
+        if (!cancelled) setHistorySessionId(sessionId);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  // Only a conversation with no stored history starts with the greeting.
+  const historySettled = !sessionId || historySessionId === sessionId;
   useEffect(() => {
-    if (pdfFile && messages.length === 0) {
+    if (historySettled && greetingSource && messages.length === 0) {
       setMessages([{
         id: '1',
         type: 'assistant',
-        content: `Hello! I've loaded your PDF "${pdfFile.name}". You can now ask me questions about its contents, and I'll provide answers with specific page references.`,
+        content: `Hello! I've loaded "${greetingSource}". You can now ask me questions about your sources, and I'll provide answers with document, page and section references.`,
         timestamp: new Date(),
       }]);
     }
-  }, [pdfFile, messages.length]);
+  }, [historySettled, greetingSource, messages.length]);
 
-  const callChatAPI = async (message: string): Promise<ChatMessage> => {
-    if (!sessionId) {
-      throw new Error('No session ID available');
+  // The guide covers every source, so it is fetched again when sources change.
+  const sourceKey = sources.map(s => s.id).join(',');
+  useEffect(() => {
+    if (!sessionId || !sourceKey) {
+      setGuide(null);
+      return;
     }
+    let cancelled = false;
+    setGuideLoading(true);
+    fetch(apiUrl(`/notebooks/${sessionId}/guide`))
+      .then(response => (response.ok ? response.json() : null))
+      .then((data: NotebookGuideData | null) => {
+        if (!cancelled) setGuide(data);
+      })
+      .catch(() => {})
+      .finally(() => {
+        if (!cancelled) setGuideLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, sourceKey]);
 
-    const chatUrl = process.env.NEXT_PUBLIC_API_CHAT_URL || '';
+  // Copies a link that opens this notebook with the cited passage highlighted.
+  const copyCitationLink = async (citation: Citation) => {
+    if (!sessionId) return;
+    try {
+      await navigator.clipboard.writeText(notebookLink(sessionId, citationLocation(citation)));
+      toast.success('Link copied', { description: 'It opens this notebook at the cited passage.' });
+    } catch {
+      toast.error('Could not copy to clipboard');
+    }
+  };
 
+  // Keeps an answer as a note, titled with the question it answered.
+  const saveToNote = async (message: ChatMessage, question?: string) => {
+    if (!sessionId) return;
     try {
-      const response = await fetch(chatUrl, {
+      const response = await fetch(apiUrl(`/notebooks/${sessionId}/notes`), {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          session_id: sessionId,
-          message: message,
+          title: question ? question.slice(0, 120) : 'Saved answer',
+          content: textToNoteHtml(message.content),
+          citations: (message.citations || []).map(toCitationPayload),
         }),
       });
+      if (!response.ok) throw new Error(`Save failed: ${response.status}`);
+      setSavedIds(prev => new Set(prev).add(message.id));
+      toast.success('Saved to notes');
+    } catch {
+      toast.error('Could not save note', { description: 'Please try again.' });
+    }
+  };
 
-      if (!response.ok) {
-        throw new Error('Chat API request failed');
-      }
+  const streamChatAPI = async (
+    message: string,
+    onToken: (content: string) => void,
+    onCitations: (citations: Citation[]) => void,
+    signal: AbortSignal
+  ) => {
+    if (!sessionId) {
+      throw new Error('No session ID available');
+    }
 
-      const data = await response.json();
+    const chatUrl = process.env.NEXT_PUBLIC_API_CHAT_STREAM_URL || apiUrl('/chat/stream');
 
-      // Parse citations from response if they exist
-      const citations = data.citations || [];
+    const response = await fetch(chatUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        session_id: sessionId,
+        message: message,
+      }),
+      signal,
+    });
 
-      return {
-        id: Date.now().toString(),
-        type: 'assistant',
-        content: data.message || data.response || 'I received your question, but there was an issue with the response.',
-        citations: citations,
-        timestamp: new Date(),
-      };
-    } catch (error) {
-      return {
-        id: Date.now().toString(),
-        type: 'assistant',
-        content: 'Sorry, I encountered an error while processing your question. Please try again.',
-        timestamp: new Date(),
-      };
+    if (!response.ok) {
+      throw new Error('Chat API request failed');
     }
+
+    await readEventStream(response, ({ event, data }) => {
+      const payload = JSON.parse(data);
+      if (event === 'token') onToken(payload.content);
+      else if (event === 'citations') onCitations(parseCitations(payload.citations));
+      else if (event === 'error') throw new Error(payload.error);
+    });
   };
 
-  const handleSendMessage = async () => {
-    if (!inputValue.trim() || !pdfFile || !sessionId) return;
+  // Creates the assistant message on its first update so the typing indicator
+  // stays visible until the first token arrives.
+  const updateAssistantMessage = (id: string, update: (message: ChatMessage) => ChatMessage) => {
+    setMessages(prev => prev.some(m => m.id === id)
+      ? prev.map(m => m.id === id ? update(m) : m)
+      : [...prev, update({ id, type: 'assistant', content: '', timestamp: new Date() })]);
+  };
+
+  const sendMessage = async (text: string) => {
+    const messageContent = text.trim();
+    if (!messageContent || !hasSources || !sessionId || isStreaming) return;
 
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
       type: 'user',
-      content: inputValue.trim(),
+      content: messageContent,
       timestamp: new Date(),
     };
 
     setMessages(prev => [...prev, userMessage]);
-    const messageContent = inputValue.trim();
     setInputValue('');
     setIsTyping(true);
+    setIsStreaming(true);
+
+    const assistantId = `${userMessage.id}-assistant`;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let received = '';
 
     try {
-      const aiResponse = await callChatAPI(messageContent);
-      setMessages(prev => [...prev, aiResponse]);
-    } catch (error) {
-      const errorMessage: ChatMessage = {
-        id: Date.now().toString(),
-        type: 'assistant',
-        content: 'Sorry, I encountered an error. Please try again.',
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      await streamChatAPI(
+        messageContent,
+        (content) => {
+          received += content;
+          setIsTyping(false);
+          updateAssistantMessage(assistantId, m => ({ ...m, content: m.content + content }));
+        },
+        (citations) => updateAssistantMessage(assistantId, m => ({ ...m, citations })),
+        controller.signal
+      );
+      if (!received) {
+        updateAssistantMessage(assistantId, m => ({
+          ...m,
+          content: 'I received your question, but there was an issue with the response.',
+        }));
+      }
+    } catch {
+      if (controller.signal.aborted) {
+        if (!received) updateAssistantMessage(assistantId, m => ({ ...m, content: 'Response stopped.' }));
+      } else {
+        updateAssistantMessage(assistantId, m => ({
+          ...m,
+          content: received || 'Sorry, I encountered an error while processing your question. Please try again.',
+        }));
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsTyping(false);
+      setIsStreaming(false);
     }
   };
 
+  const handleSendMessage = () => sendMessage(inputValue);
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -146,7 +277,9 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           <div>
             <h3 className="font-semibold text-foreground">PDF Assistant</h3>
             <p className="text-sm text-muted-foreground">
-              {pdfFile ? 'Ask questions about your document' : 'Upload a PDF to start chatting'}
+              {hasSources
+                ? `Ask questions about ${sources.length === 1 ? 'your document' : `${sources.length} documents`}`
+                : 'Upload a PDF to start chatting'}
             </p>
           </div>
         </div>
@@ -155,7 +288,11 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       {/* Messages */}
       <ScrollArea className="flex-1 p-4">
         <div className="space-y-4">
-          {messages.map((message) => (
+          {hasSources && (
+            <NotebookGuide guide={guide} loading={guideLoading} onAsk={sendMessage} disabled={isStreaming} />
+          )}
+
+          {messages.map((message, index) => (
             <div
               key={message.id}
               className={`message-enter flex gap-3 ${message.type === 'user' ? 'flex-row-reverse' : 'flex-row'
@@ -182,30 +319,64 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                   : 'bg-chat-assistant text-chat-assistant-foreground'
                 }
               `}>
-                <p className="text-sm leading-relaxed">{message.content}</p>
+                <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                  {message.type === 'assistant'
+                    ? <CitationText text={message.content} citations={message.citations} onCitationClick={onCitationClick} />
+                    : message.content}
+                </p>
 
                 {message.citations && message.citations.length > 0 && (
                   <div className="mt-3 pt-3 border-t border-current/10">
                     <p className="text-xs font-medium mb-2 opacity-75">Sources:</p>
                     <div className="flex flex-wrap gap-2">
                       {message.citations.map((citation, index) => (
-                        <button
-                          key={index}
-                          onClick={() => onCitationClick(citation.page)}
-                          className="citation-btn flex items-center gap-1"
-                          title={citation.text}
-                        >
-                          <BookOpen className="h-3 w-3" />
-                          Page {citation.page}
-                        </button>
+                        <span key={index} className="inline-flex items-center gap-0.5">
+                          <button
+                            onClick={() => onCitationClick(citation)}
+                            className="citation-btn flex items-center gap-1"
+                            title={[citation.sectionPath?.join(" › "), citation.text || citation.sourceName].filter(Boolean).join("\n")}
+                          >
+                            <BookOpen className="h-3 w-3" />
+                            {citation.number && <span className="font-semibold">[{citation.number}]</span>}
+                            {citation.sourceName && sources.length > 1 && (
+                              <span className="max-w-[8rem] truncate">{citation.sourceName} ·</span>
+                            )}
+                            {citation.sectionTitle
+                              ? <span className="max-w-[10rem] truncate">{citation.sectionTitle}</span>
+                              : <>Page {citation.page}</>}
+                          </button>
+                          {sessionId && (
+                            <button
+                              onClick={() => copyCitationLink(citation)}
+                              className="p-0.5 opacity-40 transition-opacity hover:opacity-100 hover:text-primary"
+                              title="Copy link to this citation"
+                              aria-label="Copy link to this citation"
+                            >
+                              <Link2 className="h-3 w-3" />
+                            </button>
+                          )}
+                        </span>
                       ))}
                     </div>
                   </div>
                 )}
 
-                <p className="text-xs opacity-60 mt-2">
-                  {message.timestamp.toLocaleTimeString()}
-                </p>
+                <div className="flex items-center justify-between gap-2 mt-2">
+                  <p className="text-xs opacity-60">
+                    {message.timestamp.toLocaleTimeString()}
+                  </p>
+                  {message.type === 'assistant' && index > 0 && message.content && !(isStreaming && index === messages.length - 1) && (
+                    <button
+                      onClick={() => saveToNote(message, messages[index - 1]?.type === 'user' ? messages[index - 1].content : undefined)}
+                      disabled={savedIds.has(message.id)}
+                      className="flex items-center gap-1 text-xs opacity-60 hover:opacity-100 disabled:opacity-60"
+                      title="Save this answer and its citations as a note"
+                    >
+                      {savedIds.has(message.id) ? <Check className="h-3 w-3" /> : <NotebookPen className="h-3 w-3" />}
+                      {savedIds.has(message.id) ? 'Saved' : 'Save to note'}
+                    </button>
+                  )}
+                </div>
               </div>
             </div>
           ))}
@@ -236,17 +407,28 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
             onKeyPress={handleKeyPress}
-            placeholder={pdfFile && sessionId ? "Ask a question about your PDF..." : "Upload a PDF first"}
-            disabled={!pdfFile || !sessionId || isTyping}
+            placeholder={hasSources && sessionId ? "Ask a question about your sources..." : "Upload a PDF first"}
+            disabled={!hasSources || !sessionId || isStreaming}
             className="flex-1 bg-background/50 backdrop-blur-sm"
           />
-          <Button
-            onClick={handleSendMessage}
-            disabled={!inputValue.trim() || !pdfFile || !sessionId || isTyping}
-            className="bg-primary hover:bg-primary/90 text-primary-foreground shadow-primary"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
+          {isStreaming ? (
+            <Button
+              onClick={handleStop}
+              variant="outline"
+              title="Stop generating"
+              className="hover:bg-destructive hover:text-destructive-foreground"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSendMessage}
+              disabled={!inputValue.trim() || !hasSources || !sessionId}
+              className="bg-primary hover:bg-primary/90 text-primary-foreground shadow-primary"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       </div>
     </Card>
@@ -0,0 +1,28 @@
+"use client";
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CHUNKING_STRATEGIES, type ChunkingStrategy } from "@/lib/api";
+
+interface ChunkingStrategySelectProps {
+  value?: ChunkingStrategy;
+  onChange: (strategy: ChunkingStrategy) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Picks how a notebook splits new sources into chunks; without a value the
+// backend's default strategy applies.
+export const ChunkingStrategySelect: React.FC<ChunkingStrategySelectProps> = ({ value, onChange, disabled, className }) => (
+  <Select value={value} onValueChange={(strategy) => onChange(strategy as ChunkingStrategy)} disabled={disabled}>
+    <SelectTrigger className={className} title="How new sources are split into chunks">
+      <SelectValue placeholder="Default chunking" />
+    </SelectTrigger>
+    <SelectContent>
+      {(Object.keys(CHUNKING_STRATEGIES) as ChunkingStrategy[]).map(strategy => (
+        <SelectItem key={strategy} value={strategy} title={CHUNKING_STRATEGIES[strategy].description}>
+          {CHUNKING_STRATEGIES[strategy].label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
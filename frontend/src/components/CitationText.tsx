@@ -0,0 +1,38 @@
+"use client";
+
+import type { Citation } from "@/lib/api";
+
+interface CitationTextProps {
+  text: string;
+  citations?: Citation[];
+  onCitationClick: (citation: Citation) => void;
+}
+
+// Splits text into plain runs and [n] citation markers ("[2][3]" and "[2, 3]" both work).
+export const CitationText: React.FC<CitationTextProps> = ({ text, citations, onCitationClick }) => {
+  if (!citations || citations.length === 0) return <>{text}</>;
+
+  return (
+    <>
+      {text.split(/(\[\d+(?:\s*,\s*\d+)*\])/g).map((part, i) => {
+        const numbers = part.match(/^\[(\d+(?:\s*,\s*\d+)*)\]$/)?.[1].split(',').map(n => parseInt(n, 10));
+        if (!numbers) return part;
+
+        return numbers.map(number => {
+          const citation = citations.find(c => c.number === number);
+          if (!citation) return `[${number}]`;
+          return (
+            <button
+              key={`${i}-${number}`}
+              onClick={() => onCitationClick(citation)}
+              className="citation-marker mx-0.5 align-super text-[0.65rem] font-semibold text-primary hover:underline"
+              title={citation.text}
+            >
+              [{number}]
+            </button>
+          );
+        });
+      })}
+    </>
+  );
+};
@@ -0,0 +1,60 @@
+"use client";
+
+import { Sparkles, MessageCircleQuestion } from "lucide-react";
+import type { NotebookGuide as NotebookGuideData } from "@/lib/api";
+
+interface NotebookGuideProps {
+  guide: NotebookGuideData | null;
+  loading?: boolean;
+  onAsk: (question: string) => void;
+  disabled?: boolean;
+}
+
+// Summary, key topics and suggested questions for the whole notebook; each
+// question is a chip that sends it to the chat.
+export const NotebookGuide: React.FC<NotebookGuideProps> = ({ guide, loading, onAsk, disabled }) => {
+  if (!guide) {
+    return loading ? (
+      <div className="rounded-lg border bg-card/60 p-3 text-sm text-muted-foreground animate-pulse">
+        Preparing notebook guide...
+      </div>
+    ) : null;
+  }
+
+  return (
+    <div className="message-enter rounded-lg border bg-card p-3 shadow-soft space-y-3">
+      <div className="flex items-center gap-2 text-sm font-semibold text-foreground">
+        <Sparkles className="h-4 w-4 text-primary" />
+        Notebook guide
+      </div>
+
+      <p className="text-sm leading-relaxed text-muted-foreground">{guide.summary}</p>
+
+      {guide.topics.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {guide.topics.map(topic => (
+            <span key={topic} className="rounded-full bg-muted px-2 py-0.5 text-xs text-foreground">
+              {topic}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {guide.questions.length > 0 && (
+        <div className="flex flex-col items-start gap-1.5">
+          {guide.questions.map(question => (
+            <button
+              key={question}
+              onClick={() => onAsk(question)}
+              disabled={disabled}
+              className="flex items-start gap-1.5 rounded-2xl border border-primary/30 bg-primary/5 px-3 py-1.5 text-left text-xs text-foreground transition-colors hover:bg-primary/10 disabled:pointer-events-none disabled:opacity-50"
+            >
+              <MessageCircleQuestion className="mt-0.5 h-3 w-3 flex-shrink-0 text-primary" />
+              {question}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
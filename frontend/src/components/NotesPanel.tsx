@@ -0,0 +1,276 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ArrowLeft, BookOpen, FilePlus2, Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { RichTextEditor } from "@/components/RichTextEditor";
+import { useToast } from "@/hooks/use-toast";
+import { apiUrl, parseNote, type Citation, type JobInfo, type Note, type NotePayload, type SourceInfo } from "@/lib/api";
+import { followJob } from "@/lib/jobs";
+import { notePreview } from "@/lib/notes";
+
+const AUTOSAVE_DELAY_MS = 800;
+
+interface NotesPanelProps {
+  notebookId: string | null;
+  onCitationClick: (citation: Citation) => void;
+  /** Called when a note has been indexed as a new source. */
+  onSourceAdded: (file: File, source: SourceInfo, notebookId: string) => void;
+}
+
+// Notes saved from chat answers or written by hand. Edits are saved as you
+// type; a note can be turned into a source so chat and search cover it too.
+export const NotesPanel: React.FC<NotesPanelProps> = ({ notebookId, onCitationClick, onSourceAdded }) => {
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<{ title: string; content: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [indexing, setIndexing] = useState<JobInfo | null>(null);
+  const dirtyRef = useRef(false);
+  const toast = useToast();
+
+  useEffect(() => {
+    setNotes([]);
+    setOpenId(null);
+    if (!notebookId) return;
+    let cancelled = false;
+    fetch(apiUrl(`/notebooks/${notebookId}/notes`))
+      .then(response => (response.ok ? response.json() : null))
+      .then((data: { notes: NotePayload[] } | null) => {
+        if (!cancelled && data) setNotes(data.notes.map(parseNote));
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [notebookId]);
+
+  const note = notes.find(n => n.id === openId) || null;
+
+  const save = async (id: string, changes: { title: string; content: string }) => {
+    if (!notebookId) return;
+    setSaving(true);
+    try {
+      const response = await fetch(apiUrl(`/notebooks/${notebookId}/notes/${id}`), {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      if (!response.ok) throw new Error(`Save failed: ${response.status}`);
+      const saved = parseNote(await response.json());
+      setNotes(current => current.map(n => (n.id === saved.id ? saved : n)));
+    } catch {
+      toast.error("Could not save note", { description: "Your last changes are not saved yet." });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The latest save function and draft, for the autosave timer and the unmount flush.
+  const latest = useRef({ save, openId, draft });
+  useEffect(() => {
+    latest.current = { save, openId, draft };
+  });
+
+  // Saves shortly after typing stops.
+  useEffect(() => {
+    if (!openId || !draft || !dirtyRef.current) return;
+    const timer = setTimeout(() => {
+      dirtyRef.current = false;
+      latest.current.save(openId, draft);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, openId]);
+
+  // Switching tabs unmounts the panel; edits still waiting for the timer are saved then.
+  useEffect(() => () => {
+    const { save: flush, openId: id, draft: changes } = latest.current;
+    if (dirtyRef.current && id && changes) {
+      dirtyRef.current = false;
+      flush(id, changes);
+    }
+  }, []);
+
+  const edit = (changes: Partial<{ title: string; content: string }>) => {
+    dirtyRef.current = true;
+    setDraft(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const open = (target: Note) => {
+    dirtyRef.current = false;
+    setOpenId(target.id);
+    setDraft({ title: target.title, content: target.content });
+  };
+
+  const close = () => {
+    if (openId && draft && dirtyRef.current) {
+      dirtyRef.current = false;
+      save(openId, draft);
+    }
+    setOpenId(null);
+    setDraft(null);
+  };
+
+  const create = async () => {
+    if (!notebookId) return;
+    try {
+      const response = await fetch(apiUrl(`/notebooks/${notebookId}/notes`), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title: "Untitled note", content: "" }),
+      });
+      if (!response.ok) throw new Error(`Create failed: ${response.status}`);
+      const created = parseNote(await response.json());
+      setNotes(current => [...current, created]);
+      open(created);
+    } catch {
+      toast.error("Could not create note", { description: "Please try again." });
+    }
+  };
+
+  const remove = async (id: string) => {
+    if (!notebookId) return;
+    try {
+      const response = await fetch(apiUrl(`/notebooks/${notebookId}/notes/${id}`), { method: "DELETE" });
+      if (!response.ok) throw new Error(`Delete failed: ${response.status}`);
+      dirtyRef.current = false;
+      setNotes(current => current.filter(n => n.id !== id));
+      setOpenId(null);
+      setDraft(null);
+    } catch {
+      toast.error("Could not delete note", { description: "Please try again." });
+    }
+  };
+
+  const addAsSource = async (target: Note) => {
+    if (!notebookId) return;
+    try {
+      if (draft && dirtyRef.current) {
+        dirtyRef.current = false;
+        await save(target.id, draft);
+      }
+      const response = await fetch(apiUrl(`/notebooks/${notebookId}/notes/${target.id}/source`), { method: "POST" });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Conversion failed: ${response.status}`);
+      const source = await followJob(data as JobInfo, setIndexing);
+      setNotes(current => current.map(n => (n.id === target.id ? { ...n, source_id: source.id } : n)));
+      onSourceAdded(new File([], source.name, { type: "text/html" }), source, notebookId);
+      toast.success("Note added as a source", { description: `${source.name} is ready for analysis` });
+    } catch (error) {
+      toast.error("Could not add note as a source", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setIndexing(null);
+    }
+  };
+
+  if (note && draft) {
+    return (
+      <Card className="h-full flex flex-col gap-3 bg-gradient-surface shadow-medium p-4">
+        <div className="flex items-center gap-1">
+          <Button size="icon" variant="ghost" onClick={close} title="Back to notes">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <Input value={draft.title} onChange={e => edit({ title: e.target.value })} className="h-8 flex-1" />
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button size="icon" variant="ghost" title="Delete note">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete this note?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  &ldquo;{note.title}&rdquo; will be deleted. Sources made from it stay in the notebook.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => remove(note.id)}>Delete</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+
+        <RichTextEditor key={note.id} initialHtml={note.content} onChange={content => edit({ content })} placeholder="Write your note..." />
+
+        {note.citations.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {note.citations.map((citation, i) => (
+              <button
+                key={i}
+                onClick={() => onCitationClick(citation)}
+                className="citation-btn flex items-center gap-1"
+                title={[citation.sourceName, citation.text].filter(Boolean).join("\n")}
+              >
+                <BookOpen className="h-3 w-3" />
+                {citation.number && <span className="font-semibold">[{citation.number}]</span>}
+                {citation.sectionTitle ? <span className="max-w-[10rem] truncate">{citation.sectionTitle}</span> : <>Page {citation.page}</>}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">
+            {indexing ? `${indexing.stage} (${indexing.progress}%)` : saving ? "Saving..." : "All changes saved"}
+          </span>
+          <Button size="sm" variant="outline" onClick={() => addAsSource(note)} disabled={indexing !== null} className="gap-1">
+            {indexing ? <Loader2 className="h-4 w-4 animate-spin" /> : <FilePlus2 className="h-4 w-4" />}
+            {note.source_id ? "Add as source again" : "Add as source"}
+          </Button>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="h-full flex flex-col gap-3 bg-gradient-surface shadow-medium p-4">
+      <Button size="sm" onClick={create} disabled={!notebookId} className="w-fit gap-1">
+        <Plus className="h-4 w-4" />
+        New note
+      </Button>
+      {notes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No notes yet. Write one, or use &ldquo;Save to note&rdquo; on a chat answer.
+        </p>
+      ) : (
+        <ScrollArea className="flex-1 min-h-0">
+          <div className="space-y-2 pr-3">
+            {[...notes].reverse().map(n => (
+              <button
+                key={n.id}
+                onClick={() => open(n)}
+                className="w-full rounded-lg border bg-card p-3 text-left transition-colors hover:bg-muted/50"
+              >
+                <p className="truncate text-sm font-medium text-foreground">{n.title}</p>
+                <p className="line-clamp-2 text-xs text-muted-foreground">{notePreview(n.content) || "Empty note"}</p>
+                <p className="mt-1 text-[0.65rem] text-muted-foreground">
+                  {new Date(n.updated_at).toLocaleString()}
+                  {n.citations.length > 0 && ` · ${n.citations.length} citation${n.citations.length === 1 ? "" : "s"}`}
+                  {n.source_id && " · added as source"}
+                </p>
+              </button>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </Card>
+  );
+};
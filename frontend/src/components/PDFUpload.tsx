@@ -1,30 +1,69 @@
 "use client";
-import { useCallback, useState } from 'react';
-import { useDropzone } from 'react-dropzone';
-import { Upload, FileText, X } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { useDropzone, type FileRejection } from 'react-dropzone';
+import { Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
+import { apiUrl, formatBytes, type BackendConfig, type ChunkingStrategy, type JobInfo, type SourceInfo } from '@/lib/api';
+import { followJob } from '@/lib/jobs';
+
+class UploadError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
 
 interface PDFUploadProps {
-  onFileSelect: (file: File, sessionId: string) => void;
-  selectedFile?: File | null;
-  onClearFile?: () => void;
+  onFileSelect: (file: File, source: SourceInfo, notebookId: string) => void;
+  notebookId?: string | null;
+  /** Chunking strategy for the notebook the first upload creates. */
+  chunkingStrategy?: ChunkingStrategy;
+  compact?: boolean;
+}
+
+const DEFAULT_ACCEPTED_TYPES: Record<string, string[]> = { 'application/pdf': ['.pdf'] };
+
+function extensionList(types: Record<string, string[]>) {
+  return [...new Set(Object.values(types).flat())].join(', ');
 }
 
 export const PDFUpload: React.FC<PDFUploadProps> = ({
   onFileSelect,
-  selectedFile,
-  onClearFile
+  notebookId,
+  chunkingStrategy,
+  compact = false
 }) => {
   const [isDragActive, setIsDragActive] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [job, setJob] = useState<JobInfo | null>(null);
+  const [maxUploadBytes, setMaxUploadBytes] = useState<number | null>(null);
+  const [acceptedTypes, setAcceptedTypes] = useState<Record<string, string[]>>(DEFAULT_ACCEPTED_TYPES);
   const toast = useToast();
 
-  const uploadToAPI = async (file: File) => {
+  // The backend owns the size limit and the supported formats; until it
+  // answers, its own checks still apply.
+  useEffect(() => {
+    fetch(apiUrl('/config'))
+      .then(response => (response.ok ? response.json() : null))
+      .then((config: BackendConfig | null) => {
+        if (!config) return;
+        setMaxUploadBytes(config.max_upload_bytes);
+        if (config.accepted_types) setAcceptedTypes(config.accepted_types);
+      })
+      .catch(() => {});
+  }, []);
+
+  // Without a notebook the first file starts one; later files are added to it.
+  // Either way the backend answers with an ingestion job to follow.
+  const uploadToAPI = useCallback(async (file: File, targetNotebookId?: string | null) => {
     const formData = new FormData();
+    if (!targetNotebookId && chunkingStrategy) formData.append('chunking_strategy', chunkingStrategy);
     formData.append('file', file);
-    const uploadUrl = process.env.NEXT_PUBLIC_API_UPLOAD_URL || '';
+    const uploadUrl = targetNotebookId
+      ? apiUrl(`/notebooks/${targetNotebookId}/sources`)
+      : process.env.NEXT_PUBLIC_API_UPLOAD_URL || apiUrl('/upload');
 
     const response = await fetch(uploadUrl, {
       method: 'POST',
@@ -32,73 +71,101 @@ export const PDFUpload: React.FC<PDFUploadProps> = ({
     });
 
     if (!response.ok) {
-      throw new Error('Upload failed');
+      const data = await response.json().catch(() => ({}));
+      const known = (response.status === 413 || response.status === 415) && data.error;
+      throw new UploadError(known ? data.error : 'Upload failed', response.status);
     }
 
     const data = await response.json();
-    return data.session_id;
-  };
+    const job = (targetNotebookId ? data : data.job) as JobInfo;
+    return { job, notebookId: job.notebook_id };
+  }, [chunkingStrategy]);
+
+  const waitForJob = (initial: JobInfo) => followJob(initial, setJob);
+
+  const onDropRejected = useCallback((rejections: FileRejection[]) => {
+    for (const { file, errors } of rejections) {
+      if (errors.some(e => e.code === 'file-too-large') && maxUploadBytes) {
+        toast.error("File too large", {
+          description: `${file.name} is ${formatBytes(file.size)}; the limit is ${formatBytes(maxUploadBytes)}`,
+        });
+      } else {
+        toast.error("Invalid file type", {
+          description: `${file.name} is not a supported format (${extensionList(acceptedTypes)})`,
+        });
+      }
+    }
+    setIsDragActive(false);
+  }, [acceptedTypes, maxUploadBytes, toast]);
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    if (file && file.type === 'application/pdf') {
-      setIsUploading(true);
+    if (acceptedFiles.length === 0) {
+      setIsDragActive(false);
+      return;
+    }
+
+    setIsUploading(true);
+    let currentNotebookId = notebookId;
+    for (const file of acceptedFiles) {
       try {
-        const sessionId = await uploadToAPI(file);
-        onFileSelect(file, sessionId);
-        toast.success("PDF uploaded successfully", {
+        const result = await uploadToAPI(file, currentNotebookId);
+        currentNotebookId = result.notebookId;
+        const source = await waitForJob(result.job);
+        onFileSelect(file, source, result.notebookId);
+        toast.success("Source uploaded successfully", {
           description: `${file.name} is ready for analysis`,
         });
       } catch (error) {
-        toast.error("Upload failed", {
-          description: "There was an error uploading your PDF. Please try again.",
-        });
-      } finally {
-        setIsUploading(false);
+        if (error instanceof UploadError && error.status === 413) {
+          toast.error("File too large", { description: `${file.name}: ${error.message}` });
+        } else if (error instanceof UploadError && error.status === 415) {
+          toast.error("Invalid file type", { description: error.message });
+        } else {
+          toast.error("Upload failed", {
+            description: error instanceof Error && error.message !== 'Upload failed'
+              ? `${file.name}: ${error.message}`
+              : `There was an error uploading ${file.name}. Please try again.`,
+          });
+        }
       }
-    } else {
-      toast.error("Invalid file type", {
-        description: "Please upload a PDF file",
-      });
     }
+    setJob(null);
+    setIsUploading(false);
     setIsDragActive(false);
-  }, [onFileSelect, toast]);
+  }, [notebookId, onFileSelect, toast, uploadToAPI]);
 
   const { getRootProps, getInputProps } = useDropzone({
     onDrop,
-    accept: { 'application/pdf': ['.pdf'] },
-    multiple: false,
+    onDropRejected,
+    accept: acceptedTypes,
+    maxSize: maxUploadBytes ?? undefined,
+    multiple: true,
     onDragEnter: () => setIsDragActive(true),
     onDragLeave: () => setIsDragActive(false),
   });
 
-  if (selectedFile) {
+  if (compact) {
     return (
-      <Card className="p-6 bg-gradient-surface border shadow-soft">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-3">
-            <div className="p-2 rounded-lg bg-primary/10">
-              <FileText className="h-5 w-5 text-primary" />
-            </div>
-            <div>
-              <p className="font-medium text-foreground">{selectedFile.name}</p>
-              <p className="text-sm text-muted-foreground">
-                {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
-              </p>
-            </div>
-          </div>
-          {onClearFile && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={onClearFile}
-              className="text-muted-foreground hover:text-destructive"
-            >
-              <X className="h-4 w-4" />
-            </Button>
-          )}
+      <div
+        {...getRootProps()}
+        className={`
+          upload-area rounded-lg p-3 cursor-pointer text-center text-sm transition-all duration-300
+          ${isDragActive ? 'drag-active border-primary' : 'border-dashed border-2'}
+          ${isUploading ? 'pointer-events-none opacity-50' : ''}
+        `}
+      >
+        <input {...getInputProps()} />
+        <div className="flex items-center justify-center gap-2 text-muted-foreground">
+          <Upload className="h-4 w-4" />
+          {isUploading ? (job ? `Indexing ${job.progress}%` : "Uploading...") : isDragActive ? "Drop files here" : "Add sources"}
         </div>
-      </Card>
+        {job && (
+          <div className="mt-2 space-y-1 text-left">
+            <Progress value={job.progress} />
+            <p className="text-xs text-muted-foreground truncate" title={job.stage}>{job.stage}</p>
+          </div>
+        )}
+      </div>
     );
   }
 
@@ -118,12 +185,24 @@ export const PDFUpload: React.FC<PDFUploadProps> = ({
         </div>
         <div className="space-y-2">
           <h3 className="text-xl font-semibold text-foreground">
-            {isUploading ? "Uploading..." : isDragActive ? "Drop your PDF here" : "Upload PDF Document"}
+            {isUploading ? (job ? "Indexing..." : "Uploading...") : isDragActive ? "Drop your files here" : "Upload Sources"}
           </h3>
           <p className="text-muted-foreground max-w-sm mx-auto">
-            {isUploading ? "Processing your PDF document..." : "Drag and drop your PDF file here, or click to browse. Maximum file size: 50MB"}
+            {isUploading
+              ? "Processing your document..."
+              : `Drag and drop one or more files (${extensionList(acceptedTypes)}) here, or click to browse.${maxUploadBytes ? ` Maximum file size: ${formatBytes(maxUploadBytes)}` : ''}`}
           </p>
         </div>
+        {job && (
+          <div className="space-y-2 text-left">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-foreground truncate">{job.source_name}</span>
+              <span className="text-muted-foreground">{job.progress}%</span>
+            </div>
+            <Progress value={job.progress} />
+            <p className="text-xs text-muted-foreground">{job.stage}</p>
+          </div>
+        )}
         <Button
           variant="outline"
           disabled={isUploading}
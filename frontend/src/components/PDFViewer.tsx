@@ -1,28 +1,62 @@
 "use client";
 
-import { useCallback, useState, useEffect, useMemo } from "react";
-import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, RotateCw } from "lucide-react";
+import { useCallback, useState, useEffect, useMemo, useRef } from "react";
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp, RotateCw, Search, ZoomIn, ZoomOut } from "lucide-react";
 import dynamic from "next/dynamic";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { debounce } from "lodash";
 import { useToast } from "@/hooks/use-toast";
+import { usePdfSearch, type SearchableDocument } from "@/hooks/use-pdf-search";
+import {
+  addItemMarks,
+  buildPageTextIndex,
+  findAllMatches,
+  findSnippet,
+  rangesForMatch,
+  renderMarkedItem,
+  type ItemMark,
+} from "@/lib/highlight";
+import "react-pdf/dist/Page/TextLayer.css";
 
 const Document = dynamic(() => import("react-pdf").then(m => m.Document), { ssr: false });
 const Page = dynamic(() => import("react-pdf").then(m => m.Page), { ssr: false });
 
+export interface PDFView {
+  page: number;
+  scale: number;
+}
+
 interface PDFViewerProps {
   file: File | string;
   highlightPage?: number;
+  highlightText?: string;
+  /** Where to open, e.g. from a deep link; read on mount only. */
+  initialView?: Partial<PDFView>;
+  /** Called whenever the page or zoom changes. */
+  onViewChange?: (view: PDFView) => void;
 }
 
-export const PDFViewer: React.FC<PDFViewerProps> = ({ file, highlightPage }) => {
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3.0;
+// Common words can match thousands of times; the list stops here, stepping does not.
+const MAX_LISTED_MATCHES = 200;
+
+export const PDFViewer: React.FC<PDFViewerProps> = ({ file, highlightPage, highlightText, initialView, onViewChange }) => {
   const [numPages, setNumPages] = useState(0);
-  const [pageNumber, setPageNumber] = useState(1);
-  const [scale, setScale] = useState(0.8);
+  const [pageNumber, setPageNumber] = useState(initialView?.page ?? 1);
+  const [scale, setScale] = useState(() =>
+    initialView?.scale ? Math.min(MAX_SCALE, Math.max(MIN_SCALE, initialView.scale)) : 0.8
+  );
   const [rotation, setRotation] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [pageTextItems, setPageTextItems] = useState<string[]>([]);
+  const [pdf, setPdf] = useState<SearchableDocument | null>(null);
+  const [query, setQuery] = useState("");
+  const [activeMatch, setActiveMatch] = useState(0);
+  const pageContainerRef = useRef<HTMLDivElement>(null);
+  const { matches, searching, failed: searchFailed } = usePdfSearch(pdf, query);
 
   const toast = useToast();
 
@@ -36,8 +70,12 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({ file, highlightPage }) =>
     })();
   }, []);
 
-  const onDocumentLoadSuccess = useCallback(({ numPages }: { numPages: number }) => {
+  const onDocumentLoadSuccess = useCallback((document: SearchableDocument) => {
+    const { numPages } = document;
+    setPdf(document);
     setNumPages(numPages);
+    // A linked page may be past the end of a replaced or shorter document.
+    setPageNumber(p => Math.min(p, numPages));
     setLoading(false);
     toast.success("PDF loaded successfully", {
       description: `Document contains ${numPages} pages`,
@@ -49,11 +87,74 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({ file, highlightPage }) =>
     toast.error("Failed to load PDF", { description: error.message });
   }, [toast]);
 
+  // Only jump when a new citation is selected, so the reader can still page away from it.
   useEffect(() => {
-    if (highlightPage && highlightPage > 0 && highlightPage <= numPages && highlightPage !== pageNumber) {
+    if (highlightPage && highlightPage > 0 && highlightPage <= numPages) {
       setPageNumber(highlightPage);
     }
-  }, [highlightPage, numPages, pageNumber]);
+  }, [highlightPage, highlightText, numPages]);
+
+  useEffect(() => {
+    setPageTextItems([]);
+  }, [pageNumber]);
+
+  useEffect(() => {
+    onViewChange?.({ page: pageNumber, scale });
+  }, [pageNumber, scale, onViewChange]);
+
+  // Marked-content entries carry no text but still occupy an item index.
+  const onGetTextSuccess = useCallback(({ items }: { items: object[] }) => {
+    setPageTextItems(items.map(item => ("str" in item && typeof item.str === "string" ? item.str : "")));
+  }, []);
+
+  const highlightRanges = useMemo(() => {
+    if (!highlightText || highlightPage !== pageNumber || pageTextItems.length === 0) return null;
+    return findSnippet(buildPageTextIndex(pageTextItems), highlightText);
+  }, [highlightText, highlightPage, pageNumber, pageTextItems]);
+
+  // New results start from the first match at or after the page being read.
+  // Only new results move the reader, not paging through the document.
+  const shownMatches = useRef(matches);
+  useEffect(() => {
+    if (matches === shownMatches.current) return;
+    shownMatches.current = matches;
+    if (matches.length === 0) return;
+    const next = Math.max(0, matches.findIndex(m => m.page >= pageNumber));
+    setActiveMatch(next);
+    setPageNumber(matches[next].page);
+  }, [matches, pageNumber]);
+
+  const goToMatch = (index: number) => {
+    if (matches.length === 0) return;
+    const wrapped = (index + matches.length) % matches.length;
+    setActiveMatch(wrapped);
+    setPageNumber(matches[wrapped].page);
+  };
+
+  // Search hits on this page, the current one set apart, then the cited passage.
+  const textMarks = useMemo(() => {
+    const marks = new Map<number, ItemMark[]>();
+    if (pageTextItems.length === 0) return marks;
+    const index = buildPageTextIndex(pageTextItems);
+    const current = matches[activeMatch]?.page === pageNumber ? matches[activeMatch].indexOnPage : -1;
+    findAllMatches(index, query).forEach(([start, end], i) => {
+      const className = i === current ? "search-highlight search-highlight-active" : "search-highlight";
+      addItemMarks(marks, rangesForMatch(index, start, end), className);
+    });
+    if (highlightRanges) addItemMarks(marks, highlightRanges, "citation-highlight");
+    return marks;
+  }, [pageTextItems, matches, activeMatch, pageNumber, query, highlightRanges]);
+
+  const customTextRenderer = useCallback(
+    ({ str, itemIndex }: { str: string; itemIndex: number }) => renderMarkedItem(str, textMarks.get(itemIndex)),
+    [textMarks]
+  );
+
+  const onRenderTextLayerSuccess = useCallback(() => {
+    pageContainerRef.current
+      ?.querySelector("mark.search-highlight-active, mark.citation-highlight")
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, []);
 
   useEffect(() => {
     if (!loading) return;
@@ -80,8 +181,8 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({ file, highlightPage }) =>
     if (!isNaN(page)) debouncedHandlePageInputChange(page);
   };
 
-  const zoomIn = () => setScale((s) => Math.min(3.0, s + 0.2));
-  const zoomOut = () => setScale((s) => Math.max(0.5, s - 0.2));
+  const zoomIn = () => setScale((s) => Math.min(MAX_SCALE, s + 0.2));
+  const zoomOut = () => setScale((s) => Math.max(MIN_SCALE, s - 0.2));
   const rotate = () => setRotation((r) => (r + 90) % 360);
 
   return (
@@ -113,13 +214,13 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({ file, highlightPage }) =>
 
         {/* Zoom & Rotate */}
         <div className="flex items-center gap-2">
-          <Button variant="outline" size="sm" onClick={zoomOut} disabled={scale <= 0.5}>
+          <Button variant="outline" size="sm" onClick={zoomOut} disabled={scale <= MIN_SCALE}>
             <ZoomOut className="h-4 w-4" />
           </Button>
           <span className="text-sm text-muted-foreground min-w-[4rem] text-center">
             {Math.round(scale * 100)}%
           </span>
-          <Button variant="outline" size="sm" onClick={zoomIn} disabled={scale >= 3.0}>
+          <Button variant="outline" size="sm" onClick={zoomIn} disabled={scale >= MAX_SCALE}>
             <ZoomIn className="h-4 w-4" />
           </Button>
           <Button variant="outline" size="sm" onClick={rotate}>
@@ -128,6 +229,53 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({ file, highlightPage }) =>
         </div>
       </div>
 
+      {/* Search */}
+      <div className="flex items-center gap-2 px-4 py-2 border-b bg-card/50">
+        <Search className="h-4 w-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === "Enter") goToMatch(activeMatch + (e.shiftKey ? -1 : 1));
+            if (e.key === "Escape") setQuery("");
+          }}
+          placeholder="Search in document"
+          className="h-8 flex-1"
+          disabled={!pdf}
+        />
+        <span className="text-xs text-muted-foreground min-w-[5rem] text-center">
+          {!query.trim() ? "" : searching ? "Searching..." : searchFailed ? "Search failed" : matches.length > 0 ? `${activeMatch + 1} of ${matches.length}` : "No matches"}
+        </span>
+        <Button variant="outline" size="sm" onClick={() => goToMatch(activeMatch - 1)} disabled={matches.length === 0} title="Previous match">
+          <ChevronUp className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => goToMatch(activeMatch + 1)} disabled={matches.length === 0} title="Next match">
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {query.trim() && !searching && matches.length > 0 && (
+        <div className="max-h-40 overflow-auto border-b bg-card/30 py-1">
+          {matches.slice(0, MAX_LISTED_MATCHES).map((match, i) => (
+            <button
+              key={`${match.page}-${match.indexOnPage}`}
+              onClick={() => goToMatch(i)}
+              className={`block w-full truncate px-4 py-1 text-left text-xs hover:bg-muted ${i === activeMatch ? "bg-muted" : ""}`}
+            >
+              <span className="mr-2 font-medium text-muted-foreground">p. {match.page}</span>
+              {match.context.before}
+              <mark className="search-result">{match.context.match}</mark>
+              {match.context.after}
+            </button>
+          ))}
+          {matches.length > MAX_LISTED_MATCHES && (
+            <p className="px-4 py-1 text-xs text-muted-foreground">
+              {matches.length - MAX_LISTED_MATCHES} more; use next to keep going.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* PDF Viewer */}
       <div className="flex-1 overflow-auto bg-muted/30 p-4">
         <div className="flex justify-center">
@@ -138,14 +286,20 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({ file, highlightPage }) =>
           )}
 
           {!loading && (
-            <div className={`shadow-strong rounded-lg overflow-hidden ${highlightPage === pageNumber ? "ring-4 ring-citation ring-opacity-50" : ""}`}>
+            <div
+              ref={pageContainerRef}
+              className={`shadow-strong rounded-lg overflow-hidden ${highlightPage === pageNumber && !highlightRanges ? "ring-4 ring-citation ring-opacity-50" : ""}`}
+            >
               <Document file={file} onLoadSuccess={onDocumentLoadSuccess} onLoadError={onDocumentLoadError} loading={null}>
                 <Page
                   pageNumber={pageNumber}
                   scale={scale}
                   rotate={rotation}
                   renderAnnotationLayer={false}
-                  renderTextLayer={false}
+                  renderTextLayer
+                  onGetTextSuccess={onGetTextSuccess}
+                  customTextRenderer={customTextRenderer}
+                  onRenderTextLayerSuccess={onRenderTextLayerSuccess}
                   loading={<div className="flex items-center justify-center h-96 bg-card">Loading page...</div>}
                 />
               </Document>
@@ -0,0 +1,381 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { BookOpen, CheckCircle2, ChevronLeft, ChevronRight, Layers, ListChecks, Loader2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import {
+  apiUrl,
+  parseFlashcardDeck,
+  parseQuiz,
+  parseQuizQuestion,
+  type Citation,
+  type FlashcardDeck,
+  type FlashcardDeckPayload,
+  type Quiz,
+  type QuizPayload,
+  type QuizQuestionPayload,
+  type QuizScore,
+} from "@/lib/api";
+
+const ALL_SOURCES = "all";
+
+interface PracticePanelProps {
+  notebookId: string | null;
+  sources: Array<{ id: string; name: string }>;
+  onCitationClick: (citation: Citation) => void;
+}
+
+const citationLabel = (citation: Citation) => citation.sectionTitle || `Page ${citation.page}`;
+
+// Flashcards and graded quizzes from one source or the whole notebook. Quiz
+// scores are kept by the backend, so earlier quizzes in the notebook can be resumed.
+export const PracticePanel: React.FC<PracticePanelProps> = ({ notebookId, sources, onCitationClick }) => {
+  const [sourceId, setSourceId] = useState(ALL_SOURCES);
+  const [deck, setDeck] = useState<FlashcardDeck | null>(null);
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [quizId, setQuizId] = useState<string | null>(null);
+  const [generating, setGenerating] = useState<"flashcards" | "quiz" | null>(null);
+  const toast = useToast();
+
+  useEffect(() => {
+    setDeck(null);
+    setQuizzes([]);
+    setQuizId(null);
+    if (!notebookId) return;
+    let cancelled = false;
+    Promise.all([
+      fetch(apiUrl(`/notebooks/${notebookId}/flashcards`)).then(response => (response.ok ? response.json() : null)),
+      fetch(apiUrl(`/notebooks/${notebookId}/quizzes`)).then(response => (response.ok ? response.json() : null)),
+    ])
+      .then(([deckData, quizData]: [FlashcardDeckPayload | null, { quizzes: QuizPayload[] } | null]) => {
+        if (cancelled) return;
+        if (deckData) setDeck(parseFlashcardDeck(deckData));
+        if (quizData) {
+          const loaded = quizData.quizzes.map(parseQuiz);
+          setQuizzes(loaded);
+          setQuizId(loaded.at(-1)?.id ?? null);
+        }
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [notebookId]);
+
+  const generate = async (kind: "flashcards" | "quiz") => {
+    if (!notebookId) return;
+    setGenerating(kind);
+    try {
+      const response = await fetch(apiUrl(`/notebooks/${notebookId}/${kind === "quiz" ? "quizzes" : "flashcards"}`), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ source_id: sourceId === ALL_SOURCES ? undefined : sourceId }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Generation failed: ${response.status}`);
+      if (kind === "quiz") {
+        const quiz = parseQuiz(data);
+        setQuizzes(current => [...current, quiz]);
+        setQuizId(quiz.id);
+      } else {
+        setDeck(parseFlashcardDeck(data));
+      }
+    } catch (error) {
+      toast.error(`Could not generate ${kind === "quiz" ? "a quiz" : "flashcards"}`, {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  const handleAnswered = (id: string, question: QuizQuestionPayload, score: QuizScore) => {
+    const graded = parseQuizQuestion(question);
+    setQuizzes(current => current.map(quiz => (quiz.id === id
+      ? { ...quiz, score, questions: quiz.questions.map(q => (q.id === graded.id ? graded : q)) }
+      : quiz)));
+  };
+
+  const quiz = quizzes.find(q => q.id === quizId) || null;
+  const hasSources = sources.length > 0;
+
+  return (
+    <Card className="h-full flex flex-col gap-3 bg-gradient-surface shadow-medium p-4">
+      <Select value={sourceId} onValueChange={setSourceId}>
+        <SelectTrigger className="w-full" title="Which source to practise on">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_SOURCES}>All sources</SelectItem>
+          {sources.map(source => (
+            <SelectItem key={source.id} value={source.id}>{source.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Tabs defaultValue="quiz" className="flex-1 min-h-0">
+        <TabsList className="w-full">
+          <TabsTrigger value="quiz"><ListChecks className="h-4 w-4" />Quiz</TabsTrigger>
+          <TabsTrigger value="flashcards"><Layers className="h-4 w-4" />Flashcards</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="quiz" className="min-h-0 flex flex-col gap-3">
+          <div className="flex items-center gap-2">
+            <Button size="sm" onClick={() => generate("quiz")} disabled={!hasSources || generating !== null} className="gap-1">
+              {generating === "quiz" && <Loader2 className="h-4 w-4 animate-spin" />}
+              {generating === "quiz" ? "Writing quiz..." : "New quiz"}
+            </Button>
+            {quizzes.length > 1 && (
+              <Select value={quizId ?? undefined} onValueChange={setQuizId}>
+                <SelectTrigger size="sm" className="flex-1" title="Quizzes in this notebook">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {quizzes.map((q, i) => (
+                    <SelectItem key={q.id} value={q.id}>
+                      Quiz {i + 1} · {q.score.correct}/{q.score.total}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          {quiz ? (
+            <QuizView
+              key={quiz.id}
+              notebookId={notebookId}
+              quiz={quiz}
+              onAnswered={handleAnswered}
+              onCitationClick={onCitationClick}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">{hasSources ? "No quiz yet." : "Upload a source first."}</p>
+          )}
+        </TabsContent>
+
+        <TabsContent value="flashcards" className="min-h-0 flex flex-col gap-3">
+          <Button size="sm" onClick={() => generate("flashcards")} disabled={!hasSources || generating !== null} className="w-fit gap-1">
+            {generating === "flashcards" && <Loader2 className="h-4 w-4 animate-spin" />}
+            {generating === "flashcards" ? "Writing cards..." : deck ? "New flashcards" : "Make flashcards"}
+          </Button>
+          {deck && deck.cards.length > 0 ? (
+            <FlashcardsView key={deck.id} deck={deck} onCitationClick={onCitationClick} />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {deck ? "No flashcards could be made from this source." : hasSources ? "No flashcards yet." : "Upload a source first."}
+            </p>
+          )}
+        </TabsContent>
+      </Tabs>
+    </Card>
+  );
+};
+
+interface FlashcardsViewProps {
+  deck: FlashcardDeck;
+  onCitationClick: (citation: Citation) => void;
+}
+
+const FlashcardsView: React.FC<FlashcardsViewProps> = ({ deck, onCitationClick }) => {
+  const [index, setIndex] = useState(0);
+  const [flipped, setFlipped] = useState(false);
+  const card = deck.cards[index];
+
+  const go = (next: number) => {
+    setIndex(next);
+    setFlipped(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Progress value={((index + 1) / deck.cards.length) * 100} />
+      <Card
+        role="button"
+        tabIndex={0}
+        onClick={() => setFlipped(f => !f)}
+        onKeyDown={e => {
+          if (e.key === "Enter" || e.key === " ") {
+            e.preventDefault();
+            setFlipped(f => !f);
+          }
+        }}
+        className="min-h-40 cursor-pointer justify-center gap-2 text-center transition-colors hover:bg-muted/40"
+        title="Click to flip"
+      >
+        <CardContent className="space-y-2">
+          <p className="text-xs uppercase tracking-wide text-muted-foreground">{flipped ? "Answer" : "Prompt"}</p>
+          <p className="text-sm font-medium text-foreground">{flipped ? card.back : card.front}</p>
+        </CardContent>
+      </Card>
+      <div className="flex items-center justify-between">
+        <Button size="icon" variant="ghost" onClick={() => go(index - 1)} disabled={index === 0} title="Previous card">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <button onClick={() => onCitationClick(card.citation)} className="citation-btn flex items-center gap-1">
+          <BookOpen className="h-3 w-3" />
+          {citationLabel(card.citation)}
+        </button>
+        <span className="text-xs text-muted-foreground">{index + 1} / {deck.cards.length}</span>
+        <Button size="icon" variant="ghost" onClick={() => go(index + 1)} disabled={index === deck.cards.length - 1} title="Next card">
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface QuizViewProps {
+  notebookId: string | null;
+  quiz: Quiz;
+  onAnswered: (quizId: string, question: QuizQuestionPayload, score: QuizScore) => void;
+  onCitationClick: (citation: Citation) => void;
+}
+
+const QuizView: React.FC<QuizViewProps> = ({ notebookId, quiz, onAnswered, onCitationClick }) => {
+  const firstOpen = quiz.questions.findIndex(q => !q.result);
+  const [index, setIndex] = useState(firstOpen === -1 ? 0 : firstOpen);
+  const [choice, setChoice] = useState("");
+  const [text, setText] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const toast = useToast();
+
+  if (quiz.questions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No questions could be written from this source.</p>;
+  }
+
+  const question = quiz.questions[index];
+  const { score } = quiz;
+  const answer = question.type === "multiple_choice" ? choice : text.trim();
+
+  const go = (next: number) => {
+    setIndex(next);
+    setChoice("");
+    setText("");
+  };
+
+  const submit = async () => {
+    if (!notebookId || !answer) return;
+    setSubmitting(true);
+    try {
+      const response = await fetch(apiUrl(`/notebooks/${notebookId}/quizzes/${quiz.id}/answers`), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          question_id: question.id,
+          answer: question.type === "multiple_choice" ? parseInt(answer, 10) : answer,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Grading failed: ${response.status}`);
+      onAnswered(quiz.id, data.question, data.score);
+    } catch (error) {
+      toast.error("Could not grade the answer", { description: error instanceof Error ? error.message : "Unknown error" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <ScrollArea className="flex-1 min-h-0">
+      <div className="space-y-3 pr-3">
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Question {index + 1} of {score.total}</span>
+            <span>Score {score.correct}/{score.answered}</span>
+          </div>
+          <Progress value={(score.answered / score.total) * 100} />
+        </div>
+
+        <Card className="gap-4 py-4">
+          <CardHeader className="px-4">
+            <CardTitle className="text-sm leading-relaxed">{question.question}</CardTitle>
+          </CardHeader>
+          <CardContent className="px-4">
+            {question.type === "multiple_choice" ? (
+              <RadioGroup
+                value={question.result ? String(question.result.answer) : choice}
+                onValueChange={setChoice}
+                disabled={Boolean(question.result) || submitting}
+              >
+                {question.options?.map((option, i) => {
+                  const isAnswer = question.result && i === question.answer_index;
+                  const isWrongPick = question.result && !question.result.correct && String(i) === String(question.result.answer);
+                  return (
+                    <div key={i} className="flex items-center gap-2">
+                      <RadioGroupItem value={String(i)} id={`${question.id}-${i}`} />
+                      <Label
+                        htmlFor={`${question.id}-${i}`}
+                        className={`text-sm font-normal ${isAnswer ? "text-green-600" : isWrongPick ? "text-destructive line-through" : ""}`}
+                      >
+                        {option}
+                      </Label>
+                    </div>
+                  );
+                })}
+              </RadioGroup>
+            ) : (
+              <Input
+                value={question.result ? String(question.result.answer) : text}
+                onChange={e => setText(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === "Enter") submit();
+                }}
+                placeholder="Type your answer"
+                disabled={Boolean(question.result) || submitting}
+              />
+            )}
+          </CardContent>
+
+          {question.result && (
+            <CardFooter className="flex-col items-start gap-2 px-4 text-sm">
+              <p className={`flex items-center gap-1 font-medium ${question.result.correct ? "text-green-600" : "text-destructive"}`}>
+                {question.result.correct ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+                {question.result.correct ? "Correct" : `Incorrect. The answer is: ${question.answer}`}
+              </p>
+              {question.explanation && <p className="text-muted-foreground">{question.explanation}</p>}
+              {question.citation && (
+                <button onClick={() => onCitationClick(question.citation!)} className="citation-btn flex items-center gap-1">
+                  <BookOpen className="h-3 w-3" />
+                  {citationLabel(question.citation)}
+                </button>
+              )}
+            </CardFooter>
+          )}
+        </Card>
+
+        <div className="flex items-center justify-between">
+          <Button size="sm" variant="ghost" onClick={() => go(index - 1)} disabled={index === 0}>
+            <ChevronLeft className="h-4 w-4" />
+            Back
+          </Button>
+          {question.result ? (
+            <Button size="sm" variant="outline" onClick={() => go(index + 1)} disabled={index === quiz.questions.length - 1}>
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button size="sm" onClick={submit} disabled={!answer || submitting}>
+              {submitting && <Loader2 className="h-4 w-4 animate-spin" />}
+              Check answer
+            </Button>
+          )}
+        </div>
+
+        {score.answered === score.total && (
+          <p className="text-center text-sm font-medium text-foreground">
+            Final score: {score.correct} of {score.total} ({Math.round((score.correct / score.total) * 100)}%)
+          </p>
+        )}
+      </div>
+    </ScrollArea>
+  );
+};
@@ -0,0 +1,69 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Bold, Heading2, Italic, List, ListOrdered, Quote, Underline } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface RichTextEditorProps {
+  /** Initial HTML; changing it afterwards does not reset the editor (remount it with a new key). */
+  initialHtml: string;
+  onChange: (html: string) => void;
+  placeholder?: string;
+}
+
+const COMMANDS = [
+  { icon: Bold, label: "Bold", run: () => document.execCommand("bold") },
+  { icon: Italic, label: "Italic", run: () => document.execCommand("italic") },
+  { icon: Underline, label: "Underline", run: () => document.execCommand("underline") },
+  { icon: Heading2, label: "Heading", run: () => document.execCommand("formatBlock", false, "h2") },
+  { icon: Quote, label: "Quote", run: () => document.execCommand("formatBlock", false, "blockquote") },
+  { icon: List, label: "Bulleted list", run: () => document.execCommand("insertUnorderedList") },
+  { icon: ListOrdered, label: "Numbered list", run: () => document.execCommand("insertOrderedList") },
+];
+
+// A contentEditable area with a formatting toolbar. The HTML it produces is
+// sanitized by the backend when the note is saved.
+export const RichTextEditor: React.FC<RichTextEditorProps> = ({ initialHtml, onChange, placeholder }) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+  // Only the first value is loaded; later edits come from the user.
+  const initialHtmlRef = useRef(initialHtml);
+
+  useEffect(() => {
+    if (editorRef.current) editorRef.current.innerHTML = initialHtmlRef.current;
+  }, []);
+
+  return (
+    <div className="flex flex-1 min-h-0 flex-col rounded-md border bg-background">
+      <div className="flex flex-wrap gap-0.5 border-b p-1">
+        {COMMANDS.map(({ icon: Icon, label, run }) => (
+          <Button
+            key={label}
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            title={label}
+            aria-label={label}
+            // Keep the selection in the editor while clicking the toolbar.
+            onMouseDown={e => e.preventDefault()}
+            onClick={() => {
+              run();
+              if (editorRef.current) onChange(editorRef.current.innerHTML);
+            }}
+          >
+            <Icon className="h-4 w-4" />
+          </Button>
+        ))}
+      </div>
+      <div
+        ref={editorRef}
+        contentEditable
+        suppressContentEditableWarning
+        role="textbox"
+        aria-multiline="true"
+        data-placeholder={placeholder}
+        onInput={e => onChange(e.currentTarget.innerHTML)}
+        className="note-editor flex-1 overflow-auto p-3 text-sm leading-relaxed outline-none"
+      />
+    </div>
+  );
+};
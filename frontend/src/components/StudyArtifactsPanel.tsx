@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Copy, FileText, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CitationText } from "@/components/CitationText";
+import { useToast } from "@/hooks/use-toast";
+import {
+  apiUrl,
+  parseArtifact,
+  type ArtifactType,
+  type Citation,
+  type StudyArtifact,
+  type StudyArtifactPayload,
+} from "@/lib/api";
+
+const ARTIFACT_LABELS: Record<ArtifactType, string> = {
+  faq: "FAQ",
+  study_guide: "Study guide",
+  briefing: "Briefing",
+  timeline: "Timeline",
+};
+
+interface StudyArtifactsPanelProps {
+  notebookId: string | null;
+  sources: Array<{ id: string }>;
+  onCitationClick: (citation: Citation) => void;
+}
+
+// FAQ, study guide, briefing and timeline generated from the whole notebook,
+// with [n] markers that open the cited passage.
+export const StudyArtifactsPanel: React.FC<StudyArtifactsPanelProps> = ({ notebookId, sources, onCitationClick }) => {
+  const [artifacts, setArtifacts] = useState<Partial<Record<ArtifactType, StudyArtifact>>>({});
+  const [generating, setGenerating] = useState<ArtifactType | null>(null);
+  const [active, setActive] = useState<ArtifactType>("faq");
+  const toast = useToast();
+
+  // Refetched when sources change, so the outdated flags stay current.
+  const sourceKey = sources.map(s => s.id).join(",");
+  useEffect(() => {
+    if (!notebookId) {
+      setArtifacts({});
+      return;
+    }
+    let cancelled = false;
+    fetch(apiUrl(`/notebooks/${notebookId}/artifacts`))
+      .then(response => (response.ok ? response.json() : null))
+      .then((data: { artifacts: StudyArtifactPayload[] } | null) => {
+        if (!cancelled && data) {
+          setArtifacts(Object.fromEntries(data.artifacts.map(a => [a.type, parseArtifact(a)])));
+        }
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [notebookId, sourceKey]);
+
+  const generate = async (type: ArtifactType) => {
+    if (!notebookId) return;
+    setGenerating(type);
+    try {
+      const response = await fetch(apiUrl(`/notebooks/${notebookId}/artifacts`), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Generation failed: ${response.status}`);
+      setArtifacts(current => ({ ...current, [type]: parseArtifact(data) }));
+    } catch (error) {
+      toast.error(`Could not generate ${ARTIFACT_LABELS[type]}`, {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  const copy = async (artifact: StudyArtifact) => {
+    try {
+      await navigator.clipboard.writeText(artifact.markdown);
+      toast.success("Copied as Markdown");
+    } catch {
+      toast.error("Could not copy to clipboard");
+    }
+  };
+
+  const hasSources = sources.length > 0;
+
+  return (
+    <Card className="h-full flex flex-col bg-gradient-surface shadow-medium">
+      <Tabs value={active} onValueChange={value => setActive(value as ArtifactType)} className="flex-1 min-h-0 p-4">
+        <TabsList className="w-full">
+          {(Object.keys(ARTIFACT_LABELS) as ArtifactType[]).map(type => (
+            <TabsTrigger key={type} value={type} className="text-xs">
+              {ARTIFACT_LABELS[type]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+
+        {(Object.keys(ARTIFACT_LABELS) as ArtifactType[]).map(type => {
+          const artifact = artifacts[type];
+          const busy = generating === type;
+          return (
+            <TabsContent key={type} value={type} className="flex-1 min-h-0 flex flex-col gap-3">
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => generate(type)}
+                  disabled={!hasSources || generating !== null}
+                  className="gap-1"
+                >
+                  {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : artifact ? <RefreshCw className="h-4 w-4" /> : <FileText className="h-4 w-4" />}
+                  {busy ? "Generating..." : artifact ? "Regenerate" : `Generate ${ARTIFACT_LABELS[type]}`}
+                </Button>
+                {artifact && (
+                  <Button size="sm" variant="outline" onClick={() => copy(artifact)} className="gap-1">
+                    <Copy className="h-4 w-4" />
+                    Copy
+                  </Button>
+                )}
+              </div>
+
+              {artifact?.outdated && (
+                <p className="text-xs text-muted-foreground">Sources changed since this was generated.</p>
+              )}
+
+              {artifact ? (
+                <ScrollArea className="flex-1 min-h-0">
+                  <ArtifactView artifact={artifact} onCitationClick={onCitationClick} />
+                </ScrollArea>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {hasSources
+                    ? busy ? "Reading every source. Large notebooks can take a minute." : "Not generated yet."
+                    : "Upload a source first."}
+                </p>
+              )}
+            </TabsContent>
+          );
+        })}
+      </Tabs>
+    </Card>
+  );
+};
+
+interface ArtifactViewProps {
+  artifact: StudyArtifact;
+  onCitationClick: (citation: Citation) => void;
+}
+
+const ArtifactView: React.FC<ArtifactViewProps> = ({ artifact, onCitationClick }) => {
+  const cite = (text: string) => (
+    <CitationText text={text} citations={artifact.citations} onCitationClick={onCitationClick} />
+  );
+  const content = artifact.content;
+
+  return (
+    <div className="space-y-4 pr-3 text-sm leading-relaxed">
+      <h3 className="font-semibold text-foreground">{artifact.title}</h3>
+
+      {!content && (
+        <p className="whitespace-pre-wrap">{cite(artifact.markdown.replace(/^# .*\n+/, ""))}</p>
+      )}
+
+      {content?.items?.map((item, i) => (
+        <div key={i}>
+          <p className="font-medium text-foreground">{cite(item.question)}</p>
+          <p className="text-muted-foreground">{cite(item.answer)}</p>
+        </div>
+      ))}
+
+      {(content?.overview || content?.summary) && <p>{cite(content.overview || content.summary || "")}</p>}
+
+      {content?.sections?.map((section, i) => (
+        <div key={i}>
+          <h4 className="font-medium text-foreground">{section.heading}</h4>
+          <ul className="list-disc space-y-1 pl-5">
+            {(section.points || []).map((point, j) => <li key={j}>{cite(point)}</li>)}
+          </ul>
+        </div>
+      ))}
+
+      {content?.glossary && content.glossary.length > 0 && (
+        <div>
+          <h4 className="font-medium text-foreground">Glossary</h4>
+          <dl className="space-y-1">
+            {content.glossary.map((entry, i) => (
+              <div key={i}>
+                <dt className="inline font-medium">{entry.term}: </dt>
+                <dd className="inline">{cite(entry.definition)}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
+      {content?.review_questions && content.review_questions.length > 0 && (
+        <div>
+          <h4 className="font-medium text-foreground">Review questions</h4>
+          <ol className="list-decimal space-y-1 pl-5">
+            {content.review_questions.map((question, i) => <li key={i}>{cite(question)}</li>)}
+          </ol>
+        </div>
+      )}
+
+      {content?.events && content.events.length > 0 && (
+        <ol className="space-y-2 border-l pl-4">
+          {content.events.map((event, i) => (
+            <li key={i}>
+              <p className="text-xs font-semibold text-primary">{event.date}</p>
+              <p>{cite(event.description)}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
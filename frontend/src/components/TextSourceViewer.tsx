@@ -0,0 +1,171 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ZoomIn, ZoomOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiUrl, type SourceContent, type SourceInfo } from "@/lib/api";
+import { buildPageTextIndex, findSnippet, splitHighlighted } from "@/lib/highlight";
+
+// Sections split at a heading start with the heading's own line; it is shown as
+// the section title so snippets that include it still match.
+const hasHeadingLine = (section: { title: string; paragraphs: string[] }) =>
+  section.paragraphs[0]?.trim() === section.title;
+
+interface TextSourceViewerProps {
+  notebookId: string;
+  source: SourceInfo;
+  highlightPage?: number;
+  highlightText?: string;
+}
+
+// Shows the text extracted from a non-PDF source (DOCX, Markdown, HTML, plain
+// text, EPUB) section by section. Citations on these sources use the section
+// number as their page, so jumping to a citation scrolls to that section.
+export const TextSourceViewer: React.FC<TextSourceViewerProps> = ({ notebookId, source, highlightPage, highlightText }) => {
+  const [content, setContent] = useState<SourceContent | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [fontScale, setFontScale] = useState(1);
+  const [currentSection, setCurrentSection] = useState(1);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const toast = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetch(apiUrl(`/notebooks/${notebookId}/sources/${source.id}/content`))
+      .then(response => {
+        if (!response.ok) throw new Error("Could not load source text");
+        return response.json();
+      })
+      .then((data: SourceContent) => {
+        if (!cancelled) setContent(data);
+      })
+      .catch((error: Error) => {
+        if (!cancelled) toast.error("Failed to load source", { description: error.message });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [notebookId, source.id, toast]);
+
+  const sections = useMemo(
+    () => (content?.units ?? []).map(unit => ({
+      ...unit,
+      anchor: unit.anchor ?? `section-${unit.page}`,
+      title: unit.title ?? `Section ${unit.page}`,
+      paragraphs: unit.text.split(/\n+/).filter(p => p.trim().length > 0),
+    })),
+    [content]
+  );
+
+  const highlightRanges = useMemo(() => {
+    const section = sections.find(s => s.page === highlightPage);
+    if (!section || !highlightText) return null;
+    return findSnippet(buildPageTextIndex(section.paragraphs), highlightText);
+  }, [sections, highlightPage, highlightText]);
+
+  const scrollToSection = (page: number) => {
+    const section = sections.find(s => s.page === page);
+    if (!section) return;
+    setCurrentSection(page);
+    document.getElementById(section.anchor)?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+
+  // Only jump when a new citation is selected, so the reader can still scroll away from it.
+  useEffect(() => {
+    if (!highlightPage || sections.length === 0) return;
+    setCurrentSection(highlightPage);
+    const target = containerRef.current?.querySelector("mark.citation-highlight")
+      ?? document.getElementById(sections.find(s => s.page === highlightPage)?.anchor ?? "");
+    target?.scrollIntoView({ behavior: "smooth", block: highlightRanges ? "center" : "start" });
+  }, [highlightPage, highlightText, highlightRanges, sections]);
+
+  const zoomIn = () => setFontScale((s) => Math.min(2, s + 0.1));
+  const zoomOut = () => setFontScale((s) => Math.max(0.7, s - 0.1));
+
+  return (
+    <Card className="h-full flex flex-col bg-gradient-surface shadow-medium">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-2 p-4 border-b bg-card/50 backdrop-blur-sm">
+        <Select
+          value={sections.length > 0 ? String(currentSection) : undefined}
+          onValueChange={(value) => scrollToSection(Number(value))}
+          disabled={sections.length === 0}
+        >
+          <SelectTrigger className="w-64">
+            <SelectValue placeholder="Sections" />
+          </SelectTrigger>
+          <SelectContent>
+            {sections.map(section => (
+              <SelectItem key={section.anchor} value={String(section.page)}>
+                {section.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={zoomOut} disabled={fontScale <= 0.7}>
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground min-w-[4rem] text-center">
+            {Math.round(fontScale * 100)}%
+          </span>
+          <Button variant="outline" size="sm" onClick={zoomIn} disabled={fontScale >= 2}>
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Text */}
+      <div ref={containerRef} className="source-text flex-1 overflow-auto bg-muted/30 p-4">
+        {loading ? (
+          <div className="flex items-center justify-center h-96">
+            <div className="animate-spin rounded-full h-12 w-12 border-4 border-primary border-t-transparent"></div>
+          </div>
+        ) : (
+          <article
+            className="mx-auto max-w-3xl rounded-lg bg-card p-8 shadow-strong leading-relaxed"
+            style={{ fontSize: `${fontScale}rem` }}
+          >
+            {sections.map(section => {
+              const highlighted = section.page === highlightPage;
+              return (
+                <section
+                  key={section.anchor}
+                  id={section.anchor}
+                  className={`mb-8 scroll-mt-4 ${highlighted && !highlightRanges ? "rounded-md ring-4 ring-citation ring-opacity-50" : ""}`}
+                >
+                  {!hasHeadingLine(section) && (
+                    <h2 className="mb-3 text-[1.25em] font-semibold text-foreground">{section.title}</h2>
+                  )}
+                  {section.paragraphs.map((paragraph, i) => {
+                    const Tag = i === 0 && hasHeadingLine(section) ? "h2" : "p";
+                    return (
+                      <Tag
+                        key={i}
+                        className={Tag === "h2" ? "mb-3 text-[1.25em] font-semibold text-foreground" : "mb-3 whitespace-pre-wrap text-foreground/90"}
+                      >
+                        {splitHighlighted(paragraph, highlighted ? highlightRanges?.get(i) : undefined).map((segment, j) =>
+                          segment.marked
+                            ? <mark key={j} className="citation-highlight">{segment.text}</mark>
+                            : <span key={j}>{segment.text}</span>
+                        )}
+                      </Tag>
+                    );
+                  })}
+                </section>
+              );
+            })}
+          </article>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,74 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { buildPageTextIndex, findAllMatches, matchContext } from "@/lib/highlight"
+
+const SEARCH_DELAY_MS = 300
+
+/** The parts of a loaded pdf.js document that searching needs. */
+export interface SearchableDocument {
+  numPages: number
+  getPage(pageNumber: number): Promise<{ getTextContent(): Promise<{ items: object[] }> }>
+}
+
+export interface PDFSearchMatch {
+  page: number
+  /** Position among the matches on the same page. */
+  indexOnPage: number
+  context: { before: string; match: string; after: string }
+}
+
+const itemText = (item: object) => ("str" in item && typeof item.str === "string" ? item.str : "")
+
+// Searches the text layer of every page. Page text is extracted once per
+// document and reused while the query changes. `failed` is set when the text
+// could not be read, so no matches are reported for that query.
+export function usePdfSearch(document: SearchableDocument | null, query: string) {
+  const pageText = useRef(new Map<number, string[]>())
+  const [matches, setMatches] = useState<PDFSearchMatch[]>([])
+  const [searching, setSearching] = useState(false)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    pageText.current = new Map()
+  }, [document])
+
+  useEffect(() => {
+    if (!document || !query.trim()) {
+      setMatches([])
+      setSearching(false)
+      setFailed(false)
+      return
+    }
+    let cancelled = false
+    setSearching(true)
+    const timer = setTimeout(async () => {
+      const found: PDFSearchMatch[] = []
+      let error = false
+      try {
+        for (let page = 1; page <= document.numPages; page++) {
+          const items = pageText.current.get(page)
+            ?? (await (await document.getPage(page)).getTextContent()).items.map(itemText)
+          pageText.current.set(page, items)
+          if (cancelled) return
+          const index = buildPageTextIndex(items)
+          findAllMatches(index, query).forEach(([start, end], indexOnPage) => {
+            found.push({ page, indexOnPage, context: matchContext(items, index, start, end) })
+          })
+        }
+      } catch {
+        error = true
+      }
+      if (cancelled) return
+      setMatches(error ? [] : found)
+      setFailed(error)
+      setSearching(false)
+    }, SEARCH_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [document, query])
+
+  return { matches, searching, failed }
+}
@@ -2,18 +2,22 @@
 
 import { toast as sonnerToast } from "sonner"
 
-export function useToast() {
-  return {
-    success: (title: string, options?: { description?: string }) =>
-      sonnerToast.success(title, { description: options?.description }),
+// One shared object, so components can list `toast` in effect dependencies
+// without the effect re-running on every render.
+const toast = {
+  success: (title: string, options?: { description?: string }) =>
+    sonnerToast.success(title, { description: options?.description }),
+
+  error: (title: string, options?: { description?: string }) =>
+    sonnerToast.error(title, { description: options?.description }),
 
-    error: (title: string, options?: { description?: string }) =>
-      sonnerToast.error(title, { description: options?.description }),
+  info: (title: string, options?: { description?: string }) =>
+    sonnerToast(title, { description: options?.description }),
 
-    info: (title: string, options?: { description?: string }) =>
-      sonnerToast(title, { description: options?.description }),
+  loading: (title: string, options?: { description?: string }) =>
+    sonnerToast.loading(title, { description: options?.description }),
+}
 
-    loading: (title: string, options?: { description?: string }) =>
-      sonnerToast.loading(title, { description: options?.description }),
-  }
+export function useToast() {
+  return toast
 }
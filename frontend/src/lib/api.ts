@@ -0,0 +1,371 @@
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "";
+
+export function apiUrl(path: string) {
+  return `${API_BASE_URL}${path}`;
+}
+
+export interface BackendConfig {
+  max_upload_bytes: number;
+  /** MIME type to file extensions, in the shape react-dropzone's `accept` expects. */
+  accepted_types: Record<string, string[]>;
+  chunking: {
+    strategies: ChunkingStrategy[];
+    default_strategy: ChunkingStrategy;
+    chunk_tokens: number;
+    overlap_tokens: number;
+  };
+  audio_overview: {
+    lengths: AudioOverviewLength[];
+    /** The TTS engine reading overviews aloud, or null when only scripts are written. */
+    tts: string | null;
+  };
+}
+
+export type ChunkingStrategy = "heading" | "paragraph" | "sentence" | "fixed";
+
+export const CHUNKING_STRATEGIES: Record<ChunkingStrategy, { label: string; description: string }> = {
+  heading: { label: "By heading", description: "Keeps each section together and never mixes headings" },
+  paragraph: { label: "By paragraph", description: "Whole paragraphs, split into sentences when too long" },
+  sentence: { label: "By sentence", description: "Packs whole sentences" },
+  fixed: { label: "Fixed size", description: "Plain 512-character windows" },
+};
+
+export function formatBytes(bytes: number) {
+  return `${+(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
+
+export interface SourceInfo {
+  id: string;
+  name: string;
+  mime_type: string;
+  kind: SourceKind;
+  size: number;
+  num_pages: number;
+  sections?: SourceSection[];
+  /** Pages read with OCR because their text layer was empty or too thin. */
+  ocr_pages: OcrPage[];
+  chunking_strategy: ChunkingStrategy;
+  chunk_count: number;
+  created_at: string;
+}
+
+/** PDFs are shown page by page; every other format is shown as extracted text. */
+export type SourceKind = "pdf" | "text";
+
+export interface SourceSection {
+  page: number;
+  title: string;
+  anchor: string;
+}
+
+export interface OcrPage {
+  page: number;
+  /** Tesseract's confidence, 0-100. */
+  confidence: number;
+}
+
+export function describeOcr(pages: OcrPage[]) {
+  const average = Math.round(pages.reduce((sum, p) => sum + p.confidence, 0) / pages.length);
+  return `OCR on ${pages.length} ${pages.length === 1 ? "page" : "pages"} · ${average}% confidence`;
+}
+
+export interface SourceContentUnit {
+  page: number;
+  text: string;
+  title?: string;
+  anchor?: string;
+}
+
+export interface SourceContent {
+  kind: SourceKind;
+  units: SourceContentUnit[];
+}
+
+export type JobState = "queued" | "parsing" | "embedding" | "indexed" | "failed";
+
+export interface JobInfo {
+  id: string;
+  notebook_id: string;
+  source_name: string;
+  state: JobState;
+  progress: number;
+  stage: string;
+  error: string | null;
+  /** Set when a step such as OCR failed but the source was still indexed. */
+  warning: string | null;
+  source: SourceInfo | null;
+}
+
+export interface NotebookInfo {
+  id: string;
+  name: string;
+  created_at: string;
+  last_opened_at: string | null;
+  chunking_strategy: ChunkingStrategy;
+  sources: SourceInfo[];
+}
+
+/** A notebook as listed by `GET /notebooks`. */
+export interface NotebookSummary {
+  id: string;
+  name: string;
+  created_at: string;
+  last_opened_at: string | null;
+  chunking_strategy: ChunkingStrategy;
+  source_count: number;
+}
+
+export interface NotebookGuide {
+  summary: string;
+  topics: string[];
+  /** 3-5 starter questions answerable from the sources. */
+  questions: string[];
+  generated_at: string;
+}
+
+export type ArtifactType = "faq" | "study_guide" | "briefing" | "timeline";
+
+interface ArtifactSection {
+  heading: string;
+  points: string[];
+}
+
+/** Structured artifact content, by type; null when the model didn't reply with JSON. */
+export interface ArtifactContent {
+  title?: string;
+  items?: { question: string; answer: string }[];
+  overview?: string;
+  summary?: string;
+  sections?: ArtifactSection[];
+  glossary?: { term: string; definition: string }[];
+  review_questions?: string[];
+  events?: { date: string; description: string }[];
+}
+
+export interface StudyArtifactPayload {
+  type: ArtifactType;
+  title: string;
+  content: ArtifactContent | null;
+  markdown: string;
+  citations: CitationPayload[];
+  generated_at: string;
+  /** Sources were added or removed since it was generated. */
+  outdated: boolean;
+}
+
+export interface StudyArtifact extends Omit<StudyArtifactPayload, "citations"> {
+  citations: Citation[];
+}
+
+export function parseArtifact(raw: StudyArtifactPayload): StudyArtifact {
+  return { ...raw, citations: parseCitations(raw.citations) };
+}
+
+export interface Flashcard {
+  front: string;
+  back: string;
+  citation: Citation;
+}
+
+export interface FlashcardDeck {
+  id: string;
+  source_id: string | null;
+  cards: Flashcard[];
+  created_at: string;
+}
+
+export type QuizQuestionType = "multiple_choice" | "short_answer";
+
+/** Answer fields are only sent once the question has been answered. */
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  question: string;
+  options?: string[];
+  result?: { answer: number | string; correct: boolean };
+  answer?: string;
+  answer_index?: number;
+  explanation?: string;
+  citation?: Citation;
+}
+
+export interface QuizScore {
+  correct: number;
+  answered: number;
+  total: number;
+}
+
+export interface Quiz {
+  id: string;
+  source_id: string | null;
+  questions: QuizQuestion[];
+  score: QuizScore;
+  created_at: string;
+}
+
+export interface FlashcardDeckPayload extends Omit<FlashcardDeck, "cards"> {
+  cards: (Omit<Flashcard, "citation"> & { citation: CitationPayload })[];
+}
+
+export function parseFlashcardDeck(raw: FlashcardDeckPayload): FlashcardDeck {
+  return { ...raw, cards: raw.cards.map(card => ({ ...card, citation: parseCitations([card.citation])[0] })) };
+}
+
+export interface QuizQuestionPayload extends Omit<QuizQuestion, "citation"> {
+  citation?: CitationPayload;
+}
+
+export interface QuizPayload extends Omit<Quiz, "questions"> {
+  questions: QuizQuestionPayload[];
+}
+
+export function parseQuizQuestion(raw: QuizQuestionPayload): QuizQuestion {
+  return { ...raw, citation: raw.citation ? parseCitations([raw.citation])[0] : undefined };
+}
+
+export function parseQuiz(raw: QuizPayload): Quiz {
+  return { ...raw, questions: raw.questions.map(parseQuizQuestion) };
+}
+
+export type AudioOverviewLength = "short" | "medium" | "long";
+
+export const AUDIO_OVERVIEW_LENGTHS: Record<AudioOverviewLength, string> = {
+  short: "Short (~2 min)",
+  medium: "Medium (~5 min)",
+  long: "Long (~9 min)",
+};
+
+export interface AudioOverviewLine {
+  speaker: string;
+  speaker_index: number;
+  text: string;
+  citations: Citation[];
+}
+
+export interface AudioOverview {
+  id: string;
+  title: string;
+  length: AudioOverviewLength;
+  focus: string | null;
+  speakers: string[];
+  lines: AudioOverviewLine[];
+  /** Relative to the API; null without a TTS engine or when rendering failed. */
+  audio_url: string | null;
+  audio_error: string | null;
+  generated_at: string;
+  outdated: boolean;
+}
+
+export interface AudioOverviewPayload extends Omit<AudioOverview, "lines"> {
+  lines: (Omit<AudioOverviewLine, "citations"> & { citations: CitationPayload[] })[];
+}
+
+export function parseAudioOverview(raw: AudioOverviewPayload): AudioOverview {
+  return { ...raw, lines: raw.lines.map(line => ({ ...line, citations: parseCitations(line.citations) })) };
+}
+
+/** A stored chat turn, as returned by `GET /notebooks/:id/messages`. */
+export interface ChatHistoryMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  citations: CitationPayload[];
+  timestamp: string;
+}
+
+export interface Note {
+  id: string;
+  title: string;
+  /** Rich text as sanitized HTML. */
+  content: string;
+  citations: Citation[];
+  /** The source the note was turned into, if any. */
+  source_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NotePayload extends Omit<Note, "citations"> {
+  citations: CitationPayload[];
+}
+
+export function parseNote(raw: NotePayload): Note {
+  return { ...raw, citations: parseCitations(raw.citations) };
+}
+
+export interface Citation {
+  number?: number;
+  page: number;
+  endPage?: number;
+  sectionTitle?: string;
+  anchor?: string;
+  sectionPath?: string[];
+  text?: string;
+  sourceId?: string;
+  sourceName?: string;
+  chunkId?: string;
+  start?: number;
+  end?: number;
+  pageStart?: number;
+  pageEnd?: number;
+  score?: number;
+}
+
+export interface CitationPayload {
+  number?: number;
+  page: number;
+  end_page?: number;
+  section_title?: string;
+  anchor?: string;
+  section_path?: string[];
+  snippet?: string;
+  source_id?: string;
+  source_name?: string;
+  chunk_id?: string;
+  start?: number;
+  end?: number;
+  page_start?: number;
+  page_end?: number;
+  score?: number;
+}
+
+export function parseCitations(raw: CitationPayload[] = []): Citation[] {
+  return raw.map(citation => ({
+    number: citation.number,
+    page: citation.page,
+    endPage: citation.end_page,
+    sectionTitle: citation.section_title,
+    anchor: citation.anchor,
+    sectionPath: citation.section_path,
+    text: citation.snippet,
+    sourceId: citation.source_id,
+    sourceName: citation.source_name,
+    chunkId: citation.chunk_id,
+    start: citation.start,
+    end: citation.end,
+    pageStart: citation.page_start,
+    pageEnd: citation.page_end,
+    score: citation.score,
+  }));
+}
+
+// The inverse of parseCitations, for sending citations back (e.g. saving them with a note).
+export function toCitationPayload(citation: Citation): CitationPayload {
+  return {
+    number: citation.number,
+    page: citation.page,
+    end_page: citation.endPage,
+    section_title: citation.sectionTitle,
+    anchor: citation.anchor,
+    section_path: citation.sectionPath,
+    snippet: citation.text,
+    source_id: citation.sourceId,
+    source_name: citation.sourceName,
+    chunk_id: citation.chunkId,
+    start: citation.start,
+    end: citation.end,
+    page_start: citation.pageStart,
+    page_end: citation.pageEnd,
+    score: citation.score,
+  };
+}
@@ -0,0 +1,142 @@
+import { escapeHtml } from "@/lib/utils";
+
+// Locates passages inside rendered source text: the items of a PDF page's text
+// layer, or the paragraphs of a text section. Matching ignores case and
+// whitespace, because the text extracted on the backend and the text rendered
+// in the browser join items and lines differently.
+
+export type ItemRanges = Map<number, Array<[number, number]>>;
+
+export interface PageTextIndex {
+  text: string;
+  positions: Array<{ item: number; char: number }>;
+}
+
+export function buildPageTextIndex(items: string[]): PageTextIndex {
+  let text = "";
+  const positions: PageTextIndex["positions"] = [];
+  items.forEach((str, item) => {
+    for (let char = 0; char < str.length; char++) {
+      if (/\s/.test(str[char])) continue;
+      text += str[char].toLowerCase();
+      positions.push({ item, char });
+    }
+  });
+  return { text, positions };
+}
+
+const compact = (value: string) => value.replace(/\s+/g, "").toLowerCase();
+
+// Converts a match in the compacted text back to one character range per item;
+// whitespace skipped inside an item is included in its range.
+export function rangesForMatch(index: PageTextIndex, start: number, end: number): ItemRanges {
+  const ranges: ItemRanges = new Map();
+  for (let i = start; i < end; i++) {
+    const { item, char } = index.positions[i];
+    const range = ranges.get(item)?.[0];
+    if (range) range[1] = char + 1;
+    else ranges.set(item, [[char, char + 1]]);
+  }
+  return ranges;
+}
+
+// Finds a cited snippet on the page. Snippets that run onto the next (or start
+// on the previous) page only partly match, so the leading and trailing parts
+// are tried when the whole snippet is not found.
+export function findSnippet(index: PageTextIndex, snippet: string): ItemRanges | null {
+  const needle = compact(snippet);
+  if (!needle) return null;
+
+  const attempts = [needle];
+  if (needle.length > 40) attempts.push(needle.slice(0, 60), needle.slice(-60), needle.slice(0, 30), needle.slice(-30));
+
+  for (const attempt of attempts) {
+    const start = index.text.indexOf(attempt);
+    if (start !== -1) return rangesForMatch(index, start, start + attempt.length);
+  }
+  return null;
+}
+
+// Every occurrence of a search query on the page, as [start, end) ranges in
+// the compacted text, in reading order.
+export function findAllMatches(index: PageTextIndex, query: string): Array<[number, number]> {
+  const needle = compact(query);
+  const matches: Array<[number, number]> = [];
+  if (!needle) return matches;
+  for (let start = index.text.indexOf(needle); start !== -1; start = index.text.indexOf(needle, start + needle.length)) {
+    matches.push([start, start + needle.length]);
+  }
+  return matches;
+}
+
+// The words around a match, for listing search results. Items are joined with
+// spaces, as the text layer lays them out side by side.
+export function matchContext(items: string[], index: PageTextIndex, start: number, end: number, radius = 40) {
+  const offsets: number[] = [];
+  let length = 0;
+  for (const str of items) {
+    offsets.push(length);
+    length += str.length + 1;
+  }
+  const text = items.join(" ");
+  const at = (i: number) => offsets[index.positions[i].item] + index.positions[i].char;
+  const from = at(start);
+  const to = at(end - 1) + 1;
+  const clean = (value: string) => value.replace(/\s+/g, " ");
+  // Words cut by the radius are dropped rather than shown in part.
+  const before = from > radius
+    ? "…" + clean(text.slice(from - radius, from)).replace(/^\S*\s/, "")
+    : clean(text.slice(0, from)).trimStart();
+  const after = to + radius < text.length
+    ? clean(text.slice(to, to + radius)).replace(/\s\S*$/, "") + "…"
+    : clean(text.slice(to)).trimEnd();
+  return { before, match: clean(text.slice(from, to)), after };
+}
+
+export interface ItemMark {
+  start: number;
+  end: number;
+  className: string;
+}
+
+// Adds one match's ranges to per-item marks. Ranges overlapping a mark already
+// there are skipped, so the first kind of highlight added wins.
+export function addItemMarks(marks: Map<number, ItemMark[]>, ranges: ItemRanges, className: string) {
+  for (const [item, itemRanges] of ranges) {
+    const existing = marks.get(item) ?? [];
+    for (const [start, end] of itemRanges) {
+      if (existing.some(m => start < m.end && m.start < end)) continue;
+      existing.push({ start, end, className });
+    }
+    marks.set(item, existing.sort((a, b) => a.start - b.start));
+  }
+  return marks;
+}
+
+// Markup for one text layer item with each mark wrapped in <mark class="...">.
+export function renderMarkedItem(str: string, marks: ItemMark[] | undefined) {
+  if (!marks || marks.length === 0) return escapeHtml(str);
+
+  let html = "";
+  let cursor = 0;
+  for (const { start, end, className } of marks) {
+    html += escapeHtml(str.slice(cursor, start));
+    html += `<mark class="${className}">${escapeHtml(str.slice(start, end))}</mark>`;
+    cursor = end;
+  }
+  return html + escapeHtml(str.slice(cursor));
+}
+
+// The same split as renderMarkedItem, as segments for viewers that render
+// React nodes instead of markup.
+export function splitHighlighted(str: string, ranges: Array<[number, number]> | undefined) {
+  const segments: Array<{ text: string; marked: boolean }> = [];
+  let cursor = 0;
+  for (const [start, end] of ranges ?? []) {
+    if (start > cursor) segments.push({ text: str.slice(cursor, start), marked: false });
+    segments.push({ text: str.slice(start, end), marked: true });
+    cursor = end;
+  }
+  if (cursor < str.length) segments.push({ text: str.slice(cursor), marked: false });
+  return segments;
+}
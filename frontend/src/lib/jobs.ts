@@ -0,0 +1,25 @@
+import { apiUrl, type JobInfo, type SourceInfo } from "@/lib/api";
+
+// Follows an ingestion job over its event stream until the source is indexed
+// (resolving with it) or the job fails. `onProgress` sees every update.
+export function followJob(initial: JobInfo, onProgress: (job: JobInfo) => void = () => {}) {
+  return new Promise<SourceInfo>((resolve, reject) => {
+    onProgress(initial);
+    const events = new EventSource(apiUrl(`/jobs/${initial.id}/events`));
+    events.addEventListener("progress", (event) => {
+      const current = JSON.parse((event as MessageEvent).data) as JobInfo;
+      onProgress(current);
+      if (current.state === "indexed" && current.source) {
+        events.close();
+        resolve(current.source);
+      } else if (current.state === "failed") {
+        events.close();
+        reject(new Error(current.error || "Indexing failed"));
+      }
+    });
+    events.onerror = () => {
+      events.close();
+      reject(new Error("Lost connection while indexing"));
+    };
+  });
+}
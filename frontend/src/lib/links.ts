@@ -0,0 +1,66 @@
+import type { Citation } from "@/lib/api";
+
+// Deep links into a notebook. The viewer state travels in the query string:
+//   /notebooks/<id>?source=<sourceId>&page=<n>&zoom=<percent>&cite=<start>-<end>
+// `cite` is a character range within the page (or section) text, as in a
+// citation's page_start/page_end; an open end runs to the end of the page.
+
+export interface CitedRange {
+  start: number;
+  end?: number;
+}
+
+export interface ViewerLocation {
+  sourceId?: string;
+  page?: number;
+  /** Zoom in percent. */
+  zoom?: number;
+  range?: CitedRange;
+}
+
+const positiveInt = (value: string | null) => {
+  const n = value === null ? NaN : Number(value);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+};
+
+export function parseViewerLocation(search: string): ViewerLocation {
+  const params = new URLSearchParams(search);
+  const location: ViewerLocation = {
+    sourceId: params.get("source") || undefined,
+    page: positiveInt(params.get("page")),
+    zoom: positiveInt(params.get("zoom")),
+  };
+  const cite = params.get("cite")?.match(/^(\d+)-(\d*)$/);
+  if (cite) {
+    const start = Number(cite[1]);
+    const end = cite[2] ? Number(cite[2]) : undefined;
+    if (end === undefined || end > start) location.range = { start, end };
+  }
+  return location;
+}
+
+export function viewerLocationQuery(location: ViewerLocation): string {
+  const params = new URLSearchParams();
+  if (location.sourceId) params.set("source", location.sourceId);
+  if (location.page) params.set("page", String(location.page));
+  if (location.zoom) params.set("zoom", String(Math.round(location.zoom)));
+  if (location.range) params.set("cite", `${location.range.start}-${location.range.end ?? ""}`);
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+export function notebookLink(notebookId: string, location: ViewerLocation = {}): string {
+  return `${window.location.origin}/notebooks/${notebookId}${viewerLocationQuery(location)}`;
+}
+
+export function citationLocation(citation: Citation): ViewerLocation {
+  const range = citation.pageStart !== undefined
+    ? { start: citation.pageStart, end: (citation.endPage ?? citation.page) === citation.page ? citation.pageEnd : undefined }
+    : undefined;
+  return { sourceId: citation.sourceId, page: citation.page, range };
+}
+
+// The cited passage within its page's text, for highlighting it again.
+export function sliceCitedRange(text: string, range: CitedRange): string {
+  return text.slice(range.start, range.end ?? text.length);
+}
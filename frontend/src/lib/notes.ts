@@ -0,0 +1,22 @@
+import { escapeHtml } from "@/lib/utils";
+
+// Notes are stored as a small subset of HTML (the backend strips anything
+// else), so plain text such as a chat answer is escaped and split into
+// paragraphs before saving.
+
+export function textToNoteHtml(text: string) {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+    .join("");
+}
+
+// Plain text of a note's HTML, for list previews.
+export function notePreview(html: string, length = 120) {
+  const text = html.replace(/<br\s*\/?>|<\/(p|div|li|h[1-3]|blockquote|pre)>/gi, " ").replace(/<[^>]+>/g, "");
+  const decoded = text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&amp;/g, "&");
+  const collapsed = decoded.replace(/\s+/g, " ").trim();
+  return collapsed.length > length ? `${collapsed.slice(0, length)}…` : collapsed;
+}